@@ -4,17 +4,72 @@ import type {
   NodeConfig,
   WorkflowDefinition,
   NodeExecutionContext,
-  NodeExecutor
+  NodeExecutor,
+  ExecutionEventInfo,
+  ExecutionRunInfo,
+  NodeExecutionTrace,
+  RetryPolicy,
+  StepCheckpoint,
+  WorkflowDiagnostic,
+  ConcurrencyLimit,
+  ConcurrencyStats
 } from "./types/index.ts";
 import { registerBuiltInNodes } from "./nodes/built-in-nodes.ts";
 import { registerHyperflowNodes } from "./nodes/hyperflow-nodes.ts";
+import { ContextStore } from "./context/index.ts";
+import { validateWorkflow } from "./workflows/validation.ts";
+import { ConcurrencyLimiter, type Release } from "./concurrency/index.ts";
+
+// State of a single execution. Every trigger, inject or listener event gets its
+// own run so concurrent executions never share context.
+interface ExecutionRun {
+  runId: string;
+  workflowId: string;
+  workflowName: string;
+  trigger: string;
+  triggerNodeId?: string;
+  startedAt: number;
+  finishedAt?: number;
+  error?: string; // First error reported by any node of the run
+  replayOf?: string;
+  workflow: WorkflowDefinition; // Definition the run executes, which may not be the loaded one
+  nodeMap: Map<string, NodeConfig>;
+  controller: AbortController; // Aborted on cancel or run timeout
+  cancelled?: boolean;
+  subflows: Map<string, WorkflowDefinition>; // Definitions bundled with the root workflow
+  // Set on the child scope a subflow node runs its workflow in, or a node
+  // runs in as a call (see callNode)
+  parent?: ExecutionRun;
+  subflowOutput?: (msg: WorkflowMessage, output: number) => void;
+  uncaught?: Error; // First failure no catch node of the subflow handled
+  stepResult?: StepResult; // Set while a step of a step workflow, or a called node, executes
+}
+
+// What the current step of a step workflow (or a called node) produced
+interface StepResult {
+  outputs: WorkflowMessage[]; // Messages sent on its first output
+  failure?: { error: Error; msg: WorkflowMessage };
+}
+
+// Guards against subflows that (indirectly) reference themselves
+const MAX_SUBFLOW_DEPTH = 16;
+// Guards against goto failure policies that loop forever
+const MAX_STEP_EXECUTIONS = 1000;
+// Nodes a message may pass through unless the workflow sets maxHops
+const DEFAULT_MAX_HOPS = 1000;
+// Runs the workflow's concurrency limit doesn't apply to: deploying registers
+// listeners and must not wait for, or be refused by, user traffic
+const UNLIMITED_TRIGGERS = new Set(['deploy', 'test']);
 
 export class WorkflowEngine extends EventEmitter {
   private nodeTypes: Map<string, NodeExecutor> = new Map();
   private workflows: Map<string, WorkflowDefinition> = new Map();
-  private currentWorkflowId: string | null = null;
+  private activeRuns: Map<string, ExecutionRun> = new Map();
+  // Concurrency limits of workflows (keyed by workflow id) and nodes (keyed
+  // by workflow id/node id), shared by all runs
+  private limiters: Map<string, { workflowId: string; nodeId?: string; limiter: ConcurrencyLimiter }> = new Map();
 
-  constructor() {
+  constructor(private contextStore: ContextStore = new ContextStore()) {
     super();
     this.registerBuiltInNodes();
   }
@@ -31,6 +86,19 @@ export class WorkflowEngine extends EventEmitter {
     this.log(`Loaded workflow: ${workflow.name} (${workflow.nodes.length} nodes)`);
   }
 
+  // Check a definition for dangling wires, unknown types, cycles, missing
+  // required config and http-in routes that clash with `deployed` workflows
+  validateWorkflow(workflow: WorkflowDefinition, deployed: WorkflowDefinition[] = []): WorkflowDiagnostic[] {
+    // Subflow nodes are run by the engine itself
+    const knownTypes = new Set([...this.nodeTypes.keys(), 'subflow']);
+    return validateWorkflow(workflow, { knownTypes, deployed });
+  }
+
+  // Get a loaded workflow definition
+  getWorkflow(workflowId: string): WorkflowDefinition | undefined {
+    return this.workflows.get(workflowId);
+  }
+
   // Execute a workflow
   async executeWorkflow(workflowId: string, initialData?: any) {
     const workflow = this.workflows.get(workflowId);
@@ -38,26 +106,17 @@ export class WorkflowEngine extends EventEmitter {
       throw new Error(`Workflow not found: ${workflowId}`);
     }
 
-    this.currentWorkflowId = workflowId;
-
-    this.log(`\n========================================`);
-    this.log(`Executing workflow: ${workflow.name}`);
-    this.log(`========================================\n`);
-
-    // Build node map for this workflow
-    const nodeMap = new Map<string, NodeConfig>();
-    workflow.nodes.forEach(node => nodeMap.set(node.id, node));
-
-    // Find trigger/input nodes (nodes that start workflows)
-    const inputNodeTypes = ['trigger', 'inject', 'http-in', 'mqtt-in'];
-    const triggerNodes = workflow.nodes.filter(
-      node => inputNodeTypes.includes(node.type)
-    );
+    // Find trigger/input nodes (nodes that start workflows); step workflows
+    // start at their first step
+    const inputNodeTypes = ['trigger', 'inject', 'http-in', 'mqtt-in', 'sse-in'];
+    const triggerNodes = workflow.type === 'step'
+      ? stepsOf(workflow).slice(0, 1)
+      : workflow.nodes.filter(node => inputNodeTypes.includes(node.type));
 
     if (triggerNodes.length === 0) {
       // If no explicit triggers, find nodes with no incoming connections
       const targetIds = new Set(workflow.nodes.flatMap(n => n.wires.flat()));
-      const rootNodes = workflow.nodes.filter(n => !targetIds.has(n.id));
+      const rootNodes = workflow.nodes.filter(n => !targetIds.has(n.id) && n.type !== 'catch');
       if (rootNodes.length > 0) {
         triggerNodes.push(...rootNodes);
       } else {
@@ -65,80 +124,621 @@ export class WorkflowEngine extends EventEmitter {
       }
     }
 
-    // Execute each trigger and wait for completion
-    for (const trigger of triggerNodes) {
-      const msg: WorkflowMessage = {
-        payload: initialData || { timestamp: Date.now() },
-        metadata: { workflowId, triggerId: trigger.id }
-      };
-      
-      await this.executeNode(trigger, msg, nodeMap);
-    }
+    const run = this.createRun(workflow, 'workflow');
+    const info = { workflowId, runId: run.runId };
 
-    this.log(`\n✅ Workflow execution completed\n`);
+    this.log(`\n========================================`, info);
+    this.log(`Executing workflow: ${workflow.name}`, info);
+    this.log(`========================================\n`, info);
+
+    await this.trackRun(run, async () => {
+      // Execute each trigger and wait for completion
+      for (const trigger of triggerNodes) {
+        const msg: WorkflowMessage = {
+          payload: initialData || { timestamp: Date.now() },
+          metadata: { workflowId, triggerId: trigger.id }
+        };
+        
+        await this.startAt(trigger, msg, run);
+      }
+    });
+
+    this.log(`\n✅ Workflow execution completed\n`, info);
+    return run.runId;
   }
 
   // Execute a specific node by ID (for inject triggers)
-  async executeNodeById(workflowId: string, nodeId: string, initialData?: any) {
+  async executeNodeById(workflowId: string, nodeId: string, initialData?: any, trigger: string = 'manual') {
     const workflow = this.workflows.get(workflowId);
     if (!workflow) {
       throw new Error(`Workflow not found: ${workflowId}`);
     }
 
-    this.currentWorkflowId = workflowId;
-
-    const nodeMap = new Map<string, NodeConfig>();
-    workflow.nodes.forEach(node => nodeMap.set(node.id, node));
-
-    const node = nodeMap.get(nodeId);
+    const node = workflow.nodes.find(n => n.id === nodeId);
     if (!node) {
       throw new Error(`Node not found: ${nodeId}`);
     }
 
+    const run = this.createRun(workflow, trigger, nodeId);
+
     const msg: WorkflowMessage = {
       payload: initialData || node.config.payload || { timestamp: Date.now() },
       metadata: { workflowId, nodeId }
     };
 
-    await this.executeNode(node, msg, nodeMap);
+    await this.trackRun(run, () => this.startAt(node, msg, run));
+    return run.runId;
+  }
+
+  // Re-execute a node and everything downstream of it with a recorded message.
+  // With `output` set the message is sent from that output of the node instead,
+  // which is how listener nodes (http-in, mqtt-in...) are replayed.
+  async replayFrom(
+    workflow: WorkflowDefinition,
+    nodeId: string,
+    msg: WorkflowMessage,
+    options: { output?: number; replayOf?: string } = {}
+  ) {
+    const node = workflow.nodes.find(n => n.id === nodeId);
+    if (!node) {
+      throw new Error(`Node not found: ${nodeId}`);
+    }
+
+    const run = this.createRun(workflow, 'replay', nodeId);
+    run.replayOf = options.replayOf;
+
+    const replayMsg: WorkflowMessage = {
+      ...msg,
+      metadata: { ...msg.metadata, replayOf: options.replayOf }
+    };
+
+    this.log(`🔁 Replaying ${workflow.name} from ${node.name}`, { workflowId: workflow.id, runId: run.runId, nodeId });
+
+    await this.trackRun(run, () => options.output === undefined
+      ? this.startAt(node, replayMsg, run)
+      : this.continueAfter(node, replayMsg, options.output, run)
+    );
+    return run.runId;
+  }
+
+  // Continue a step workflow run in a new run, from the step its checkpoint
+  // points at and with the message and state recorded there
+  async resumeFrom(workflow: WorkflowDefinition, checkpoint: StepCheckpoint) {
+    if (workflow.type !== 'step') {
+      throw new Error(`Workflow ${workflow.name} is not a step workflow`);
+    }
+    if (checkpoint.nextStep === null) {
+      throw new Error(`Run ${checkpoint.runId} already completed`);
+    }
+    const step = stepsOf(workflow).find(s => s.id === checkpoint.nextStep);
+    if (!step) {
+      throw new Error(`Step not found: ${checkpoint.nextStep}`);
+    }
+
+    const run = this.createRun(workflow, 'resume', step.id);
+    run.replayOf = checkpoint.runId;
+
+    const msg: WorkflowMessage = {
+      ...checkpoint.msg,
+      metadata: { ...checkpoint.msg.metadata, replayOf: checkpoint.runId }
+    };
+
+    this.log(`⏯️  Resuming ${workflow.name} at ${step.name}`, { workflowId: workflow.id, runId: run.runId, nodeId: step.id });
+
+    await this.trackRun(run, () => this.runSteps(run, step.id, msg));
+    return run.runId;
+  }
+
+  private createRun(workflow: WorkflowDefinition, trigger: string, triggerNodeId?: string): ExecutionRun {
+    const nodeMap = new Map<string, NodeConfig>();
+    workflow.nodes.forEach(node => nodeMap.set(node.id, node));
+    return {
+      runId: crypto.randomUUID(),
+      workflowId: workflow.id,
+      workflowName: workflow.name,
+      trigger,
+      triggerNodeId,
+      startedAt: Date.now(),
+      workflow,
+      nodeMap,
+      controller: new AbortController(),
+      subflows: new Map((workflow.subflows ?? []).map(w => [w.id, w]))
+    };
+  }
+
+  // Abort an in-flight run; returns false when no such run is active
+  cancelRun(runId: string): boolean {
+    const run = this.activeRuns.get(runId);
+    if (!run) return false;
+
+    run.cancelled = true;
+    run.error ??= 'Run cancelled';
+    run.controller.abort(abortError('Run cancelled', 'AbortError'));
+    this.log(`⏹️  Cancelled run of ${run.workflowName}`, { workflowId: run.workflowId, runId });
+    return true;
+  }
+
+  // Runs currently executing
+  getActiveRuns(): ExecutionRunInfo[] {
+    return [...this.activeRuns.values()].map(run => this.runInfo(run));
+  }
+
+  // Load of every concurrency limit used so far
+  getConcurrencyStats(): ConcurrencyStats[] {
+    return [...this.limiters.values()].map(({ workflowId, nodeId, limiter }) => ({ workflowId, nodeId, ...limiter.stats }));
+  }
+
+  // Limiter of a workflow, or of one of its nodes, updated to the limit of
+  // the definition being executed
+  private limiterFor(workflowId: string, nodeId: string | undefined, limit: ConcurrencyLimit): ConcurrencyLimiter {
+    const key = nodeId === undefined ? workflowId : `${workflowId}/${nodeId}`;
+    const entry = this.limiters.get(key);
+    if (entry) {
+      entry.limiter.configure(limit);
+      return entry.limiter;
+    }
+    const limiter = new ConcurrencyLimiter(limit);
+    this.limiters.set(key, { workflowId, nodeId, limiter });
+    return limiter;
+  }
+
+  // Emit runStart/runComplete around the body of a run. Runs over the
+  // workflow's concurrency limit wait before they start; a full queue drops
+  // the run or throws a QueueFullError at the caller. Deploy and test runs
+  // are not limited.
+  private async trackRun(run: ExecutionRun, body: () => Promise<void>) {
+    const limit = UNLIMITED_TRIGGERS.has(run.trigger) ? undefined : run.workflow.concurrency;
+    const release = limit ? await this.limiterFor(run.workflowId, undefined, limit).acquire() : undefined;
+    if (release === null) {
+      this.log(`⏭️  Dropped run of ${run.workflowName}: concurrency limit reached and queue full`, { workflowId: run.workflowId, runId: run.runId });
+      return;
+    }
+    run.startedAt = Date.now();
+
+    this.activeRuns.set(run.runId, run);
+    const timeout = run.workflow.timeout;
+    const timer = timeout ? setTimeout(() => {
+      run.error ??= `Run timed out after ${timeout}ms`;
+      run.controller.abort(abortError(`Run timed out after ${timeout}ms`, 'TimeoutError'));
+    }, timeout) : undefined;
+
+    this.emit('runStart', this.runInfo(run), run.workflow);
+    try {
+      await body();
+    } catch (error) {
+      run.error ??= (error as Error).message;
+      throw error;
+    } finally {
+      release?.();
+      clearTimeout(timer);
+      this.activeRuns.delete(run.runId);
+      run.finishedAt = Date.now();
+      this.emit('runComplete', this.runInfo(run));
+    }
+  }
+
+  private runInfo(run: ExecutionRun): ExecutionRunInfo {
+    return {
+      runId: run.runId,
+      workflowId: run.workflowId,
+      workflowName: run.workflowName,
+      trigger: run.trigger,
+      triggerNodeId: run.triggerNodeId,
+      replayOf: run.replayOf,
+      status: run.finishedAt === undefined ? 'running' : run.cancelled ? 'cancelled' : run.error ? 'error' : 'success',
+      startedAt: run.startedAt,
+      finishedAt: run.finishedAt,
+      error: run.error
+    };
   }
 
   // Execute a single node
-  private async executeNode(node: NodeConfig, msg: WorkflowMessage, nodeMap: Map<string, NodeConfig>) {
-    const executor = this.nodeTypes.get(node.type);
+  private async executeNode(node: NodeConfig, msg: WorkflowMessage, run: ExecutionRun) {
+    const info: ExecutionEventInfo = { workflowId: run.workflowId, runId: run.runId, nodeId: node.id };
+
+    // Nothing new starts once the run is cancelled or timed out
+    if (run.controller.signal.aborted) return;
+
+    // Subflow nodes need the run they belong to, so the engine runs them itself
+    const executor: NodeExecutor | undefined = node.type === 'subflow'
+      ? (subflowMsg, subflowCtx) => this.executeSubflow(node, subflowMsg, subflowCtx, run)
+      : this.nodeTypes.get(node.type);
     if (!executor) {
-      this.error(`Unknown node type: ${node.type}`);
+      run.error ??= `Unknown node type: ${node.type}`;
+      this.error(`Unknown node type: ${node.type}`, undefined, info);
       return;
     }
 
+    msg.metadata = { ...msg.metadata, workflowId: run.workflowId, runId: run.runId };
+
+    // A message going round a wire loop is stopped before it exhausts memory
+    const maxHops = run.workflow.maxHops ?? DEFAULT_MAX_HOPS;
+    if (maxHops > 0 && (msg.metadata.hops ?? 0) > maxHops) {
+      const error = new Error(`Message passed through more than ${maxHops} nodes; stopped before ${node.name} (is it wired in a loop?)`);
+      error.name = 'MaxHopsError';
+      this.recordError(run, error.message);
+      this.error(`   ❌ ${error.message}`, undefined, info);
+      // The catch path starts counting again, so it can run
+      const errorMsg = this.errorMessage(node, { ...msg, metadata: { ...msg.metadata, hops: 0 } }, error, 0);
+      await this.sendToCatchNodes(node, errorMsg, error, run);
+      return;
+    }
+
+    // Executions over the node's concurrency limit wait for a slot; with the
+    // queue full the message is dropped or the node fails with a QueueFullError
+    let release: Release | null | undefined;
+    let overflow: Error | null = null;
+    if (node.concurrency) {
+      try {
+        release = await this.limiterFor(run.workflowId, node.id, node.concurrency).acquire(run.controller.signal);
+      } catch (error) {
+        if (run.controller.signal.aborted) return;
+        overflow = error as Error;
+      }
+      if (release === null) {
+        this.log(`⏭️  Dropped message for ${node.name}: concurrency limit reached and queue full`, info);
+        return;
+      }
+    }
+
+    // Only snapshot messages when someone (e.g. execution history) listens
+    const trace: NodeExecutionTrace | null = this.listenerCount('nodeTrace') > 0 ? {
+      runId: run.runId,
+      workflowId: run.workflowId,
+      nodeId: node.id,
+      nodeName: node.name,
+      nodeType: node.type,
+      input: snapshotMessage(msg),
+      outputs: [],
+      startedAt: Date.now(),
+      finishedAt: 0
+    } : null;
+
     // Emit node execution start event
-    this.emit('nodeStart', node.id, node.name, node.type);
-    this.log(`▶️  Executing: ${node.name} [${node.type}]`);
+    this.emit('nodeStart', node.id, node.name, node.type, run.workflowId, run.runId);
+    this.log(`▶️  Executing: ${node.name} [${node.type}]`, info);
 
     // Collect all send promises to await them
     const sendPromises: Promise<void>[] = [];
+    // Listener nodes (http-in, mqtt-in, interval...) keep sending after their
+    // executor returned; each of those messages starts a run of its own.
+    let settled = false;
+
+    const maxAttempts = Math.max(1, node.retry?.maxAttempts ?? 1);
+    // Sends of a node that may be retried are held back until an attempt
+    // succeeds, so a failed attempt never leaks partial output downstream
+    let held: Array<{ msg: WorkflowMessage; output: number }> | null = maxAttempts > 1 ? [] : null;
+    const input = maxAttempts > 1 ? snapshotMessage(msg) : msg;
+
+    // A message object sent more than once (e.g. on several outputs) is
+    // copied like on a fan-out, so the branches don't share it
+    const delivered = new Set<WorkflowMessage>();
+    const deliver = (outMsg: WorkflowMessage, output: number) => {
+      if (!delivered.has(outMsg)) {
+        delivered.add(outMsg);
+      } else if (run.workflow.cloneMessages !== false) {
+        outMsg = cloneMessage(outMsg);
+      }
+      outMsg = withStickyMetadata(msg, outMsg);
+      trace?.outputs.push({ output, message: snapshotMessage(outMsg) });
+      sendPromises.push(this.sendMessage(node, outMsg, output, run));
+    };
 
-    const context: NodeExecutionContext = {
+    // Shared by all attempts; each one adds its own signal, send and call
+    const context: Omit<NodeExecutionContext, 'send' | 'call'> = {
       node,
-      workflowId: this.currentWorkflowId || undefined,
-      send: (outMsg, output = 0) => {
-        const promise = this.sendMessage(node, outMsg, output, nodeMap);
-        sendPromises.push(promise);
-      },
-      log: (logMsg) => this.log(`   ${logMsg}`),
-      error: (errMsg, err) => this.error(`   ❌ ${errMsg}`, err)
+      workflowId: run.workflowId,
+      runId: run.runId,
+      signal: run.controller.signal,
+      sandbox: run.workflow.sandbox === true ? {} : run.workflow.sandbox || undefined,
+      flow: this.contextStore.flow(run.workflowId),
+      global: this.contextStore.global,
+      log: (logMsg) => this.log(`   ${logMsg}`, info),
+      error: (errMsg, err) => {
+        const message = err ? `${errMsg}: ${err.message}` : errMsg;
+        this.recordError(run, message);
+        if (trace) trace.error ??= message;
+        this.error(`   ❌ ${errMsg}`, err, info);
+      }
     };
 
+    let failure: Error | null = overflow;
+    let attempt = 1;
+    for (; !overflow; attempt++) {
+      // No attempt starts once the run is cancelled or timed out
+      if (run.controller.signal.aborted) {
+        failure = run.controller.signal.reason as Error;
+        break;
+      }
+
+      // Each attempt gets its own deadline on top of the run's signal
+      const attemptController = new AbortController();
+      const abortAttempt = () => attemptController.abort(run.controller.signal.reason);
+      run.controller.signal.addEventListener('abort', abortAttempt, { once: true });
+      const timer = node.timeout ? setTimeout(() => {
+        attemptController.abort(abortError(`Node timed out after ${node.timeout}ms`, 'TimeoutError'));
+      }, node.timeout) : undefined;
+      // An attempt that timed out or was cancelled is abandoned, not stopped:
+      // its sends are dropped from then on, and only an attempt whose
+      // executor returned may keep sending as a listener
+      let completed = false;
+      const attemptContext: NodeExecutionContext = {
+        ...context,
+        signal: attemptController.signal,
+        send: (outMsg, output = 0) => {
+          if (attemptController.signal.aborted) return;
+          if (settled) {
+            return completed ? this.startListenerRun(node, outMsg, output, run) : undefined;
+          } else if (held) {
+            held.push({ msg: outMsg, output });
+          } else {
+            deliver(outMsg, output);
+          }
+        },
+        call: (target, callMsg) => this.callNode(target, callMsg, attemptContext, run)
+      };
+
+      try {
+        // Every retry gets an untouched copy of the original input
+        await untilAborted(executor(attempt === 1 ? msg : snapshotMessage(input), attemptContext), attemptController.signal);
+        completed = true;
+        failure = null;
+        break;
+      } catch (error) {
+        failure = error instanceof Error ? error : new Error(String(error));
+        // Also tells an attempt that threw on its own to stop sending
+        attemptController.abort(failure);
+        if (run.controller.signal.aborted) break;
+        if (attempt >= maxAttempts || !isRetryable(node.retry!, failure)) break;
+
+        held = [];
+        const delay = retryDelay(node.retry!, attempt);
+        this.log(`   🔁 Attempt ${attempt}/${maxAttempts} failed (${failure.message}), retrying in ${delay}ms`, info);
+        await untilAborted(new Promise(resolve => setTimeout(resolve, delay)), run.controller.signal).catch(() => {});
+        if (run.controller.signal.aborted) {
+          failure = run.controller.signal.reason as Error;
+          break;
+        }
+      } finally {
+        clearTimeout(timer);
+        run.controller.signal.removeEventListener('abort', abortAttempt);
+      }
+    }
+    settled = true;
+    // Downstream nodes don't hold the slot
+    release?.();
+
+    if (failure && run.controller.signal.aborted) {
+      // A cancelled or timed-out run is not routed to error handlers
+      if (trace) trace.error ??= failure.message;
+      this.log(`   ⏹️  ${node.name} aborted: ${failure.message}`, info);
+    } else if (failure && run.stepResult) {
+      // The step's failure policy (see runSteps) or the caller (see callNode)
+      // decides what happens next
+      if (trace) trace.error ??= failure.message;
+      this.error(`   ❌ ${node.name} failed`, failure, info);
+      run.stepResult.failure = { error: failure, msg: this.errorMessage(node, msg, failure, attempt) };
+    } else if (failure) {
+      context.error(attempt > 1 ? `Node execution failed after ${attempt} attempts` : 'Node execution failed', failure);
+      const errorMsg = this.errorMessage(node, msg, failure, attempt);
+      if (node.errorOutput !== undefined && (node.wires[node.errorOutput]?.length ?? 0) > 0) {
+        deliver(errorMsg, node.errorOutput);
+      } else {
+        sendPromises.push(this.sendToCatchNodes(node, errorMsg, failure, run));
+      }
+    } else {
+      held?.forEach(({ msg: outMsg, output }) => deliver(outMsg, output));
+    }
+
+    if (trace) {
+      trace.finishedAt = Date.now();
+      this.emit('nodeTrace', trace);
+    }
+
     try {
-      await executor(msg, context);
       // Wait for all downstream nodes to complete
       await Promise.all(sendPromises);
-    } catch (error) {
-      context.error('Node execution failed', error as Error);
     } finally {
       // Emit node execution complete event
-      this.emit('nodeComplete', node.id, node.name, node.type);
+      this.emit('nodeComplete', node.id, node.name, node.type, run.workflowId, run.runId);
+    }
+  }
+
+  // Keep the first error of a run; errors inside a subflow also count for
+  // the runs around it
+  private recordError(run: ExecutionRun, message: string) {
+    for (let scope: ExecutionRun | undefined = run; scope; scope = scope.parent) {
+      scope.error ??= message;
+    }
+  }
+
+  // Begin a new run for a message emitted by a listener after registration.
+  // Returns false when the workflow's concurrency queue is full, so the run
+  // is dropped or rejected (e.g. http-in answers 503).
+  private startListenerRun(node: NodeConfig, msg: WorkflowMessage, output: number, parent: ExecutionRun): boolean {
+    const run: ExecutionRun = {
+      ...parent,
+      runId: crypto.randomUUID(),
+      trigger: node.type,
+      triggerNodeId: node.id,
+      startedAt: Date.now(),
+      finishedAt: undefined,
+      error: undefined,
+      replayOf: undefined,
+      controller: new AbortController(),
+      cancelled: undefined,
+      uncaught: undefined,
+      stepResult: undefined
+    };
+    // Decided before trackRun asks the limiter for a slot
+    const limit = run.workflow.concurrency;
+    const accepted = !limit || !this.limiterFor(run.workflowId, undefined, limit).full;
+
+    this.trackRun(run, async () => {
+      // Record what the listener emitted as the first step of the run
+      if (this.listenerCount('nodeTrace') > 0) {
+        const snapshot = snapshotMessage(msg);
+        this.emit('nodeTrace', {
+          runId: run.runId,
+          workflowId: run.workflowId,
+          nodeId: node.id,
+          nodeName: node.name,
+          nodeType: node.type,
+          input: snapshot,
+          outputs: [{ output, message: snapshot }],
+          startedAt: run.startedAt,
+          finishedAt: run.startedAt
+        } satisfies NodeExecutionTrace);
+      }
+      await this.continueAfter(node, msg, output, run);
+    }).catch(err => {
+      this.error('Listener run failed', err as Error, { workflowId: run.workflowId, runId: run.runId, nodeId: node.id });
+    });
+    return accepted;
+  }
+
+  // Message delivered on error outputs and to catch nodes
+  private errorMessage(node: NodeConfig, msg: WorkflowMessage, error: Error, attempts: number): WorkflowMessage {
+    return {
+      ...msg,
+      error: error.message,
+      metadata: {
+        ...msg.metadata,
+        error: {
+          message: error.message,
+          stack: error.stack,
+          source: { id: node.id, type: node.type, name: node.name },
+          attempts
+        }
+      }
+    };
+  }
+
+  // Hand a failure without an error output to the workflow's catch nodes.
+  // Failures of catch nodes themselves are not caught again.
+  private async sendToCatchNodes(failedNode: NodeConfig, errorMsg: WorkflowMessage, error: Error, run: ExecutionRun) {
+    if (failedNode.type === 'catch') return;
+
+    const catchNodes = [...run.nodeMap.values()].filter(n => {
+      if (n.type !== 'catch') return false;
+      if ((n.config.scope || 'all') === 'all') return true;
+      const scope = String(n.config.nodes || '').split(',').map((s: string) => s.trim());
+      return scope.includes(failedNode.id) || scope.includes(failedNode.name);
+    });
+
+    // Uncaught inside a subflow: the subflow node itself fails
+    if (catchNodes.length === 0 && run.parent) {
+      run.uncaught ??= error;
+      return;
+    }
+
+    const messages = fanOut(errorMsg, catchNodes.length, run.workflow);
+    await Promise.all(catchNodes.map((n, i) => this.executeNode(n, messages[i]!, run)));
+  }
+
+  // Run the workflow a subflow node references in a child scope. The message
+  // enters at its subflow-in nodes; whatever reaches a subflow-out node leaves
+  // on the subflow node's output for that port.
+  private async executeSubflow(node: NodeConfig, msg: WorkflowMessage, ctx: NodeExecutionContext, parent: ExecutionRun) {
+    const workflowId = node.config.workflowId;
+    const definition = parent.subflows.get(workflowId) ?? this.workflows.get(workflowId);
+    if (!definition) {
+      throw new Error(`Subflow workflow not found: ${workflowId}`);
+    }
+
+    let depth = 0;
+    for (let scope: ExecutionRun | undefined = parent; scope; scope = scope.parent) {
+      if (++depth > MAX_SUBFLOW_DEPTH) {
+        throw new Error(`Subflows nested deeper than ${MAX_SUBFLOW_DEPTH} levels`);
+      }
+    }
+
+    const inputs = definition.nodes.filter(n => n.type === 'subflow-in');
+    if (inputs.length === 0) {
+      throw new Error(`Subflow ${definition.name} has no subflow-in node`);
+    }
+
+    // A sandboxed workflow keeps its subflows sandboxed
+    const workflow = parent.workflow.sandbox && !definition.sandbox
+      ? { ...definition, sandbox: parent.workflow.sandbox }
+      : definition;
+
+    const child: ExecutionRun = {
+      ...parent,
+      workflowId: workflow.id,
+      workflowName: workflow.name,
+      workflow,
+      nodeMap: new Map(workflow.nodes.map(n => [n.id, n])),
+      controller: new AbortController(),
+      error: undefined,
+      parent,
+      subflowOutput: (outMsg, output) => ctx.send(outMsg, output),
+      uncaught: undefined,
+      stepResult: undefined
+    };
+
+    // The child scope stops with the subflow node (timeout, cancel)
+    const signal = ctx.signal;
+    const abort = () => child.controller.abort(signal.reason);
+    if (signal.aborted) abort();
+    signal.addEventListener('abort', abort, { once: true });
+
+    ctx.log(`↘️  Entering subflow ${workflow.name}`);
+    try {
+      const messages = fanOut(msg, inputs.length, workflow);
+      await Promise.all(inputs.map((input, i) => this.executeNode(input, messages[i]!, child)));
+    } finally {
+      signal.removeEventListener('abort', abort);
+    }
+
+    if (child.uncaught) throw child.uncaught;
+  }
+
+  // Run a single node for a caller (e.g. an ai-generate tool) in a child
+  // scope. Like a step, what it sends on its first output is collected instead
+  // of following its wires, and its failure goes back to the caller instead of
+  // catch nodes.
+  private async callNode(target: string | NodeConfig, msg: WorkflowMessage, ctx: NodeExecutionContext, parent: ExecutionRun): Promise<WorkflowMessage[]> {
+    const node = typeof target === 'string'
+      ? parent.nodeMap.get(target) ?? parent.workflow.nodes.find(n => n.name === target)
+      : target;
+    if (!node) {
+      throw new Error(`Node not found: ${target}`);
+    }
+
+    let depth = 0;
+    for (let scope: ExecutionRun | undefined = parent; scope; scope = scope.parent) {
+      if (++depth > MAX_SUBFLOW_DEPTH) {
+        throw new Error(`Calls and subflows nested deeper than ${MAX_SUBFLOW_DEPTH} levels`);
+      }
+    }
+
+    const result: StepResult = { outputs: [] };
+    const child: ExecutionRun = {
+      ...parent,
+      controller: new AbortController(),
+      error: undefined,
+      parent,
+      subflowOutput: undefined,
+      uncaught: undefined,
+      stepResult: result
+    };
+
+    // The call stops with the calling node (timeout, cancel)
+    const signal = ctx.signal;
+    const abort = () => child.controller.abort(signal.reason);
+    if (signal.aborted) abort();
+    signal.addEventListener('abort', abort, { once: true });
+
+    try {
+      await this.executeNode(node, msg, child);
+    } finally {
+      signal.removeEventListener('abort', abort);
     }
+
+    if (child.controller.signal.aborted) throw child.controller.signal.reason;
+    if (result.failure) throw result.failure.error;
+    return result.outputs;
   }
 
   // Send message to connected nodes
@@ -146,20 +746,124 @@ export class WorkflowEngine extends EventEmitter {
     fromNode: NodeConfig,
     msg: WorkflowMessage,
     outputIndex: number = 0,
-    nodeMap: Map<string, NodeConfig>
+    run: ExecutionRun
   ) {
-    const wires = fromNode.wires[outputIndex] || [];
-    
-    const promises: Promise<void>[] = [];
-    
-    for (const targetNodeId of wires) {
-      const targetNode = nodeMap.get(targetNodeId);
-      if (targetNode) {
-        promises.push(this.executeNode(targetNode, { ...msg }, nodeMap));
+    // Leaving a subflow: continue from the subflow node's output for this port
+    if (fromNode.type === 'subflow-out' && run.subflowOutput) {
+      run.subflowOutput(msg, Math.max(1, Number(fromNode.config.port) || 1) - 1);
+      return;
+    }
+
+    // Steps don't follow wires; runSteps continues with what they sent
+    if (run.stepResult) {
+      if (outputIndex === 0) run.stepResult.outputs.push(msg);
+      return;
+    }
+
+    const targets = (fromNode.wires[outputIndex] || [])
+      .map(id => run.nodeMap.get(id))
+      .filter((node): node is NodeConfig => node !== undefined);
+    // Every wire a message crosses counts as a hop (see executeNode)
+    const hops = (msg.metadata?.hops ?? 0) + 1;
+    const messages = fanOut({ ...msg, metadata: { ...msg.metadata, hops } }, targets.length, run.workflow);
+
+    await Promise.all(targets.map((targetNode, i) => this.executeNode(targetNode, messages[i]!, run)));
+  }
+
+  // Start a run at a node: in step workflows the steps from that node on run
+  // in order, in flows the node's wires are followed
+  private startAt(node: NodeConfig, msg: WorkflowMessage, run: ExecutionRun): Promise<void> {
+    return run.workflow.type === 'step' ? this.runSteps(run, node.id, msg) : this.executeNode(node, msg, run);
+  }
+
+  // Continue with what a node sent on an output, without executing the node
+  private continueAfter(node: NodeConfig, msg: WorkflowMessage, output: number, run: ExecutionRun): Promise<void> {
+    if (run.workflow.type !== 'step') return this.sendMessage(node, msg, output, run);
+
+    const steps = stepsOf(run.workflow);
+    const next = steps[steps.findIndex(s => s.id === node.id) + 1];
+    return output === 0 && next ? this.runSteps(run, next.id, msg) : Promise.resolve();
+  }
+
+  // Run the steps of a step workflow one after the other, from `stepId` on.
+  // Each step receives the last message the previous step sent on its first
+  // output, with the state accumulated so far as msg.state. A step that sends
+  // nothing there ends the run.
+  private async runSteps(run: ExecutionRun, stepId: string, msg: WorkflowMessage) {
+    const steps = stepsOf(run.workflow);
+    const info: ExecutionEventInfo = { workflowId: run.workflowId, runId: run.runId };
+    let index = steps.findIndex(s => s.id === stepId);
+    let state = msg.state ?? {};
+    let executions = 0;
+
+    while (index >= 0 && index < steps.length) {
+      const step = steps[index]!;
+      // A failing step can't leave half-made changes in the state
+      const input: WorkflowMessage = { ...msg, state: structuredClone(state) };
+      this.checkpoint(run, step.id, input);
+
+      if (run.controller.signal.aborted) return;
+      if (++executions > MAX_STEP_EXECUTIONS) {
+        run.error ??= `Step workflow exceeded ${MAX_STEP_EXECUTIONS} step executions`;
+        this.error(`❌ ${run.error}`, undefined, info);
+        return;
       }
+
+      const result: StepResult = { outputs: [] };
+      run.stepResult = result;
+      try {
+        await this.executeNode(step, input, run);
+      } finally {
+        run.stepResult = undefined;
+      }
+      // Cancelled or timed out: the checkpoint stays at this step
+      if (run.controller.signal.aborted) return;
+
+      if (result.failure) {
+        const policy = step.onFailure ?? 'stop';
+        if (policy === 'skip') {
+          this.log(`   ⏭️  Skipping failed step ${step.name}`, info);
+          index++;
+          continue;
+        }
+        if (policy !== 'stop') {
+          const target = steps.findIndex(s => s.id === policy.goto);
+          if (target >= 0) {
+            this.log(`   ↪️  Step ${step.name} failed, continuing at ${steps[target]!.name}`, info);
+            index = target;
+            continue;
+          }
+          this.error(`   ❌ Step to continue at not found: ${policy.goto}`, undefined, info);
+        }
+        run.error ??= `Step ${step.name} failed: ${result.failure.error.message}`;
+        await this.sendToCatchNodes(step, result.failure.msg, result.failure.error, run);
+        return;
+      }
+
+      const output = result.outputs.at(-1);
+      if (!output) {
+        this.log(`   ⏹️  ${step.name} sent no message, ending the run`, info);
+        break;
+      }
+      // Steps that build a fresh message keep the state
+      state = output.state ?? state;
+      msg = output;
+      index++;
     }
-    
-    await Promise.all(promises);
+
+    this.checkpoint(run, null, { ...msg, state });
+  }
+
+  // Record the position of a step workflow run (see ExecutionHistory)
+  private checkpoint(run: ExecutionRun, nextStep: string | null, msg: WorkflowMessage) {
+    if (this.listenerCount('stepCheckpoint') === 0) return;
+    this.emit('stepCheckpoint', {
+      runId: run.runId,
+      workflowId: run.workflowId,
+      nextStep,
+      msg: snapshotMessage(msg),
+      updatedAt: Date.now()
+    } satisfies StepCheckpoint);
   }
 
   // Register built-in node types
@@ -169,13 +873,141 @@ export class WorkflowEngine extends EventEmitter {
   }
 
   // Logging
-  private log(message: string) {
+  private log(message: string, info: ExecutionEventInfo = {}) {
     console.log(message);
-    this.emit('log', message);
+    this.emit('log', message, info);
   }
 
-  private error(message: string, error?: Error) {
+  private error(message: string, error?: Error, info: ExecutionEventInfo = {}) {
     console.error(message, error);
-    this.emit('error', message, error);
+    this.emit('error', message, error, info);
+  }
+}
+
+// Steps of a step workflow in order. Catch nodes and the nodes wired after
+// them handle failures and are no steps.
+function stepsOf(workflow: WorkflowDefinition): NodeConfig[] {
+  const handlers = new Set(workflow.nodes.filter(n => n.type === 'catch').map(n => n.id));
+  const byId = new Map(workflow.nodes.map(n => [n.id, n]));
+  for (const id of handlers) {
+    byId.get(id)?.wires.flat().forEach(target => handlers.add(target));
+  }
+  return workflow.nodes.filter(n => !handlers.has(n.id));
+}
+
+// Messages for the branches of a fan-out. Branches after the first get a
+// deep copy, made before any branch runs, so a branch mutating its message
+// can't affect its siblings; workflows with cloneMessages: false share it.
+function fanOut(msg: WorkflowMessage, count: number, workflow: WorkflowDefinition): WorkflowMessage[] {
+  return Array.from({ length: count }, (_, i) =>
+    i === 0 ? { ...msg } : workflow.cloneMessages === false ? { ...msg } : cloneMessage(msg)
+  );
+}
+
+// Deep copy of a message; values structuredClone can't copy (functions,
+// sockets...) leave the message shared as a shallow copy
+function cloneMessage(msg: WorkflowMessage): WorkflowMessage {
+  try {
+    return cloneKeepingBuffers(msg);
+  } catch {
+    return { ...msg };
+  }
+}
+
+// structuredClone that keeps Buffers, which Bun copies as plain Uint8Arrays,
+// so a copied message has the same types as the original
+function cloneKeepingBuffers<T>(value: T): T {
+  return restoreBuffers(value, structuredClone(value), new Set());
+}
+
+// Walk a value and its structured clone side by side, turning the copies of
+// Buffers back into Buffers over the same copied memory
+function restoreBuffers(source: any, copy: any, seen: Set<object>): any {
+  if (Buffer.isBuffer(source)) {
+    return Buffer.isBuffer(copy) ? copy : Buffer.from(copy.buffer, copy.byteOffset, copy.byteLength);
+  }
+  if (source === null || typeof source !== 'object' || ArrayBuffer.isView(source) || seen.has(source)) return copy;
+  seen.add(source);
+  if (source instanceof Map) {
+    for (const [key, entry] of source) {
+      if (copy.has(key)) copy.set(key, restoreBuffers(entry, copy.get(key), seen));
+    }
+  } else {
+    for (const key of Object.keys(source)) {
+      if (key in copy) copy[key] = restoreBuffers(source[key], copy[key], seen);
+    }
+  }
+  return copy;
+}
+
+// Sequence metadata survives nodes that build a fresh message (e.g. a function
+// returning { payload }) so split/loop items can still be joined downstream,
+// the hop count of a message going round a loop keeps growing and an
+// http-response node can still answer the request the message came from.
+// A node that sets a key, even to undefined, decides its value.
+const STICKY_METADATA = ['parts', 'loopIndex', 'loopTotal', 'hops', 'httpRequestId'];
+
+function withStickyMetadata(input: WorkflowMessage, output: WorkflowMessage): WorkflowMessage {
+  const carried = STICKY_METADATA.filter(key =>
+    input.metadata?.[key] !== undefined && !(output.metadata && key in output.metadata)
+  );
+  if (carried.length === 0) return output;
+  return {
+    ...output,
+    metadata: { ...Object.fromEntries(carried.map(key => [key, input.metadata![key]])), ...output.metadata }
+  };
+}
+
+// Error used as abort reason, so executors and history see a readable message
+function abortError(message: string, name: 'AbortError' | 'TimeoutError'): Error {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
+
+// Settle with the promise, or reject with the abort reason as soon as the
+// signal fires; executors that ignore their signal are abandoned, not awaited
+function untilAborted<T>(promise: T | Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) return Promise.reject(signal.reason);
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    Promise.resolve(promise).then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+// Whether a failed attempt should be retried under the policy
+function isRetryable(policy: RetryPolicy, error: Error): boolean {
+  if (!policy.retryOn || policy.retryOn.length === 0) return true;
+  const text = [error.name, (error as any).code, error.message].filter(Boolean).join(' ');
+  return policy.retryOn.some(pattern => {
+    try {
+      return new RegExp(pattern, 'i').test(text);
+    } catch {
+      return text.includes(pattern);
+    }
+  });
+}
+
+// Delay before the attempt following `attempt` (1-based)
+function retryDelay(policy: RetryPolicy, attempt: number): number {
+  const base = policy.delayMs ?? 1000;
+  let delay = policy.backoff === 'exponential' ? base * 2 ** (attempt - 1) : base;
+  if (policy.maxDelayMs !== undefined) delay = Math.min(delay, policy.maxDelayMs);
+  if (policy.jitter) delay = delay * (0.5 + Math.random() / 2);
+  return Math.round(delay);
+}
+
+// Copy a message for execution traces and retries so later mutations don't
+// rewrite history or the next attempt's input
+function snapshotMessage(msg: WorkflowMessage): WorkflowMessage {
+  try {
+    return cloneKeepingBuffers(msg);
+  } catch {
+    try {
+      return JSON.parse(JSON.stringify(msg));
+    } catch {
+      return { payload: String(msg.payload), metadata: { snapshotError: 'Message could not be cloned' } };
+    }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,106 @@
+import type { ConcurrencyLimit } from "../types/index.ts";
+
+// Frees the slot an execution held; calling it again does nothing
+export type Release = () => void;
+
+// An execution turned away because its limit's queue was full
+export class QueueFullError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QueueFullError';
+  }
+}
+
+interface Waiter {
+  resolve: (release: Release) => void;
+  signal?: AbortSignal;
+  onAbort: () => void;
+}
+
+// Hands out up to `limit.max` slots at a time; callers beyond that wait in
+// FIFO order
+export class ConcurrencyLimiter {
+  private active = 0;
+  private waiting: Waiter[] = [];
+  dropped = 0;
+  rejected = 0;
+
+  constructor(private limit: ConcurrencyLimit) {}
+
+  // Apply a changed limit (e.g. after a redeploy); waiters start right away
+  // when it was raised
+  configure(limit: ConcurrencyLimit) {
+    this.limit = limit;
+    this.next();
+  }
+
+  // Resolves with the slot once one is free, or with null when the queue is
+  // full and the overflow policy is 'drop'. Rejects with a QueueFullError
+  // under 'reject', and with the abort reason when `signal` fires while waiting.
+  acquire(signal?: AbortSignal): Promise<Release | null> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    if (this.active < Math.max(1, this.limit.max) && this.waiting.length === 0) {
+      this.active++;
+      return Promise.resolve(this.release());
+    }
+
+    const maxQueue = this.limit.maxQueue ?? Infinity;
+    if (this.full) {
+      if (this.limit.overflow === 'drop') {
+        this.dropped++;
+        return Promise.resolve(null);
+      }
+      this.rejected++;
+      return Promise.reject(new QueueFullError(`Concurrency limit of ${this.limit.max} reached and ${maxQueue} already queued`));
+    }
+
+    return new Promise<Release>((resolve, reject) => {
+      const waiter: Waiter = {
+        resolve,
+        signal,
+        onAbort: () => {
+          this.waiting.splice(this.waiting.indexOf(waiter), 1);
+          reject(signal!.reason);
+        }
+      };
+      signal?.addEventListener('abort', waiter.onAbort, { once: true });
+      this.waiting.push(waiter);
+    });
+  }
+
+  // True when acquire() would drop or reject right now
+  get full(): boolean {
+    const free = this.active < Math.max(1, this.limit.max) && this.waiting.length === 0;
+    return !free && this.waiting.length >= (this.limit.maxQueue ?? Infinity);
+  }
+
+  get stats() {
+    return {
+      max: this.limit.max,
+      maxQueue: this.limit.maxQueue,
+      active: this.active,
+      queued: this.waiting.length,
+      dropped: this.dropped,
+      rejected: this.rejected
+    };
+  }
+
+  private release(): Release {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.active--;
+      this.next();
+    };
+  }
+
+  private next() {
+    while (this.waiting.length > 0 && this.active < Math.max(1, this.limit.max)) {
+      const waiter = this.waiting.shift()!;
+      waiter.signal?.removeEventListener('abort', waiter.onAbort);
+      this.active++;
+      waiter.resolve(this.release());
+    }
+  }
+}
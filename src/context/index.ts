@@ -0,0 +1,71 @@
+import type { WorkflowDatabase } from "../database/index.ts";
+import type { ContextScope } from "../types/index.ts";
+
+// Storage behind the context store. Scopes are "global" or "flow:<workflowId>".
+export interface ContextBackend {
+  get(scope: string, key: string): Promise<any>;
+  set(scope: string, key: string, value: any): Promise<void>;
+  keys(scope: string): Promise<string[]>;
+}
+
+// Lost on restart; values are copied in and out like the persistent backend
+// serializes them, so mutating a value read from the store never changes it
+export class MemoryContextBackend implements ContextBackend {
+  private scopes: Map<string, Map<string, string>> = new Map();
+
+  async get(scope: string, key: string): Promise<any> {
+    const value = this.scopes.get(scope)?.get(key);
+    return value === undefined ? undefined : JSON.parse(value);
+  }
+
+  async set(scope: string, key: string, value: any): Promise<void> {
+    if (value === undefined) {
+      this.scopes.get(scope)?.delete(key);
+      return;
+    }
+    if (!this.scopes.has(scope)) this.scopes.set(scope, new Map());
+    this.scopes.get(scope)!.set(key, JSON.stringify(value));
+  }
+
+  async keys(scope: string): Promise<string[]> {
+    return [...(this.scopes.get(scope)?.keys() ?? [])].sort();
+  }
+}
+
+// Survives redeploys and restarts
+export class SqliteContextBackend implements ContextBackend {
+  constructor(private database: WorkflowDatabase) {}
+
+  get(scope: string, key: string): Promise<any> {
+    return this.database.getContextValue(scope, key);
+  }
+
+  set(scope: string, key: string, value: any): Promise<void> {
+    return this.database.setContextValue(scope, key, value);
+  }
+
+  keys(scope: string): Promise<string[]> {
+    return this.database.listContextKeys(scope);
+  }
+}
+
+// Flow- and global-scoped state handed to nodes as ctx.flow and ctx.global
+export class ContextStore {
+  readonly global: ContextScope;
+
+  constructor(private backend: ContextBackend = new MemoryContextBackend()) {
+    this.global = this.scope('global');
+  }
+
+  flow(workflowId: string): ContextScope {
+    return this.scope(`flow:${workflowId}`);
+  }
+
+  private scope(scope: string): ContextScope {
+    return {
+      get: (key) => this.backend.get(scope, key),
+      set: (key, value) => this.backend.set(scope, key, value),
+      keys: () => this.backend.keys(scope)
+    };
+  }
+}
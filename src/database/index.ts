@@ -1,5 +1,16 @@
 import { Database } from "bun:sqlite";
-import type { User, AuthSession } from "../types/index.ts";
+import { existsSync, mkdirSync } from "fs";
+import { join } from "path";
+import type {
+  User,
+  AuthSession,
+  WorkflowDefinition,
+  ExecutionRunInfo,
+  ExecutionRecord,
+  ExecutionQuery,
+  NodeExecutionTrace,
+  StepCheckpoint
+} from "../types/index.ts";
 
 export class WorkflowDatabase {
   private db: Database;
@@ -33,10 +44,85 @@ export class WorkflowDatabase {
       )
     `);
 
+    // Workflow definitions referenced by executions, deduplicated by content hash
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS workflow_versions (
+        hash TEXT PRIMARY KEY,
+        workflow_id TEXT NOT NULL,
+        definition TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      )
+    `);
+
+    // Execution history - one row per run
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS executions (
+        run_id TEXT PRIMARY KEY,
+        workflow_id TEXT NOT NULL,
+        workflow_name TEXT NOT NULL,
+        workflow_hash TEXT,
+        trigger TEXT NOT NULL,
+        trigger_node_id TEXT,
+        replay_of TEXT,
+        status TEXT NOT NULL,
+        error TEXT,
+        started_at INTEGER NOT NULL,
+        finished_at INTEGER
+      )
+    `);
+
+    // Databases created before replays were recorded lack replay_of
+    const executionColumns = this.db.query("PRAGMA table_info(executions)").all() as { name: string }[];
+    if (!executionColumns.some(c => c.name === 'replay_of')) {
+      this.db.run("ALTER TABLE executions ADD COLUMN replay_of TEXT");
+    }
+
+    // Per-node input/output snapshots of each run
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS execution_nodes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        run_id TEXT NOT NULL,
+        node_id TEXT NOT NULL,
+        node_name TEXT NOT NULL,
+        node_type TEXT NOT NULL,
+        input TEXT NOT NULL,
+        outputs TEXT NOT NULL,
+        error TEXT,
+        started_at INTEGER NOT NULL,
+        finished_at INTEGER NOT NULL,
+        FOREIGN KEY (run_id) REFERENCES executions (run_id) ON DELETE CASCADE
+      )
+    `);
+
+    // Latest position of each step workflow run, for resuming it
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS step_checkpoints (
+        run_id TEXT PRIMARY KEY,
+        workflow_id TEXT NOT NULL,
+        next_step TEXT,
+        message TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+
+    // Flow and global context store (JSON values)
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS context_values (
+        scope TEXT NOT NULL,
+        key TEXT NOT NULL,
+        value TEXT NOT NULL,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (scope, key)
+      )
+    `);
+
     // Create indexes
     this.db.run("CREATE INDEX IF NOT EXISTS idx_sessions_token ON auth_sessions(token)");
     this.db.run("CREATE INDEX IF NOT EXISTS idx_sessions_user ON auth_sessions(user_id)");
     this.db.run("CREATE INDEX IF NOT EXISTS idx_sessions_expires ON auth_sessions(expires_at)");
+    this.db.run("CREATE INDEX IF NOT EXISTS idx_executions_workflow ON executions(workflow_id, started_at)");
+    this.db.run("CREATE INDEX IF NOT EXISTS idx_executions_started ON executions(started_at)");
+    this.db.run("CREATE INDEX IF NOT EXISTS idx_execution_nodes_run ON execution_nodes(run_id)");
   }
 
   // User management
@@ -132,10 +218,214 @@ export class WorkflowDatabase {
     return result.changes;
   }
 
+  // Execution history
+  async saveWorkflowVersion(workflow: WorkflowDefinition): Promise<string> {
+    const definition = JSON.stringify(workflow);
+    const hash = new Bun.CryptoHasher('sha256').update(definition).digest('hex');
+
+    this.db.run(
+      `INSERT OR IGNORE INTO workflow_versions (hash, workflow_id, definition, created_at)
+       VALUES (?, ?, ?, ?)`,
+      [hash, workflow.id, definition, Date.now()]
+    );
+
+    return hash;
+  }
+
+  async createExecution(run: ExecutionRunInfo, workflowHash: string | null): Promise<void> {
+    this.db.run(
+      `INSERT OR REPLACE INTO executions
+       (run_id, workflow_id, workflow_name, workflow_hash, trigger, trigger_node_id, replay_of, status, error, started_at, finished_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [run.runId, run.workflowId, run.workflowName, workflowHash, run.trigger, run.triggerNodeId ?? null,
+       run.replayOf ?? null, run.status, run.error ?? null, run.startedAt, run.finishedAt ?? null]
+    );
+  }
+
+  async completeExecution(run: ExecutionRunInfo): Promise<void> {
+    this.db.run(
+      `UPDATE executions SET status = ?, error = ?, finished_at = ? WHERE run_id = ?`,
+      [run.status, run.error ?? null, run.finishedAt ?? Date.now(), run.runId]
+    );
+  }
+
+  async addNodeExecution(trace: NodeExecutionTrace): Promise<void> {
+    this.db.run(
+      `INSERT INTO execution_nodes
+       (run_id, node_id, node_name, node_type, input, outputs, error, started_at, finished_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [trace.runId, trace.nodeId, trace.nodeName, trace.nodeType, serializeSnapshot(trace.input),
+       serializeSnapshot(trace.outputs), trace.error ?? null, trace.startedAt, trace.finishedAt]
+    );
+  }
+
+  async listExecutions(query: ExecutionQuery = {}): Promise<ExecutionRecord[]> {
+    const where: string[] = [];
+    const params: (string | number)[] = [];
+    if (query.workflowId) {
+      where.push('e.workflow_id = ?');
+      params.push(query.workflowId);
+    }
+    if (query.status) {
+      where.push('e.status = ?');
+      params.push(query.status);
+    }
+
+    const rows = this.db.query(
+      `SELECT e.*, (SELECT COUNT(*) FROM execution_nodes n WHERE n.run_id = e.run_id) AS node_count
+       FROM executions e
+       ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}
+       ORDER BY e.started_at DESC
+       LIMIT ? OFFSET ?`
+    ).all(...params, query.limit ?? 50, query.offset ?? 0) as any[];
+
+    return rows.map(row => this.toExecutionRecord(row));
+  }
+
+  async getExecution(runId: string): Promise<ExecutionRecord | null> {
+    const row = this.db.query(
+      `SELECT e.*, v.definition,
+              (SELECT COUNT(*) FROM execution_nodes n WHERE n.run_id = e.run_id) AS node_count
+       FROM executions e
+       LEFT JOIN workflow_versions v ON v.hash = e.workflow_hash
+       WHERE e.run_id = ?`
+    ).get(runId) as any;
+
+    if (!row) return null;
+
+    const nodes = this.db.query(
+      `SELECT * FROM execution_nodes WHERE run_id = ? ORDER BY started_at, id`
+    ).all(runId) as any[];
+
+    return {
+      ...this.toExecutionRecord(row),
+      workflow: row.definition ? JSON.parse(row.definition) : undefined,
+      checkpoint: (await this.getStepCheckpoint(runId)) ?? undefined,
+      nodes: nodes.map(node => ({
+        runId: node.run_id,
+        workflowId: row.workflow_id,
+        nodeId: node.node_id,
+        nodeName: node.node_name,
+        nodeType: node.node_type,
+        input: parseSnapshot(node.input),
+        outputs: parseSnapshot(node.outputs),
+        error: node.error ?? undefined,
+        startedAt: node.started_at,
+        finishedAt: node.finished_at
+      }))
+    };
+  }
+
+  // Keep only the most recent runs; returns the number of runs removed
+  async pruneExecutions(keep: number): Promise<number> {
+    const cutoff = this.db.query(
+      `SELECT started_at FROM executions ORDER BY started_at DESC LIMIT 1 OFFSET ?`
+    ).get(keep) as { started_at: number } | null;
+    if (!cutoff) return 0;
+
+    this.db.run(
+      `DELETE FROM execution_nodes WHERE run_id IN (SELECT run_id FROM executions WHERE started_at <= ?)`,
+      [cutoff.started_at]
+    );
+    this.db.run(
+      `DELETE FROM step_checkpoints WHERE run_id IN (SELECT run_id FROM executions WHERE started_at <= ?)`,
+      [cutoff.started_at]
+    );
+    const result = this.db.run(`DELETE FROM executions WHERE started_at <= ?`, [cutoff.started_at]);
+    this.db.run(
+      `DELETE FROM workflow_versions WHERE hash NOT IN (SELECT DISTINCT workflow_hash FROM executions WHERE workflow_hash IS NOT NULL)`
+    );
+    return result.changes;
+  }
+
+  async saveStepCheckpoint(checkpoint: StepCheckpoint): Promise<void> {
+    this.db.run(
+      `INSERT OR REPLACE INTO step_checkpoints (run_id, workflow_id, next_step, message, updated_at)
+       VALUES (?, ?, ?, ?, ?)`,
+      [checkpoint.runId, checkpoint.workflowId, checkpoint.nextStep, serializeSnapshot(checkpoint.msg), checkpoint.updatedAt]
+    );
+  }
+
+  async getStepCheckpoint(runId: string): Promise<StepCheckpoint | null> {
+    const row = this.db.query("SELECT * FROM step_checkpoints WHERE run_id = ?").get(runId) as any;
+    if (!row) return null;
+    return {
+      runId: row.run_id,
+      workflowId: row.workflow_id,
+      nextStep: row.next_step,
+      msg: parseSnapshot(row.message),
+      updatedAt: row.updated_at
+    };
+  }
+
+  private toExecutionRecord(row: any): ExecutionRecord {
+    return {
+      runId: row.run_id,
+      workflowId: row.workflow_id,
+      workflowName: row.workflow_name,
+      trigger: row.trigger,
+      triggerNodeId: row.trigger_node_id ?? undefined,
+      replayOf: row.replay_of ?? undefined,
+      status: row.status,
+      error: row.error ?? undefined,
+      startedAt: row.started_at,
+      finishedAt: row.finished_at ?? undefined,
+      nodeCount: row.node_count ?? 0
+    };
+  }
+
+  // Context store
+  async getContextValue(scope: string, key: string): Promise<any> {
+    const row = this.db.query("SELECT value FROM context_values WHERE scope = ? AND key = ?").get(scope, key) as { value: string } | null;
+    return row ? JSON.parse(row.value) : undefined;
+  }
+
+  async setContextValue(scope: string, key: string, value: any): Promise<void> {
+    if (value === undefined) {
+      this.db.run("DELETE FROM context_values WHERE scope = ? AND key = ?", [scope, key]);
+      return;
+    }
+    this.db.run(
+      `INSERT OR REPLACE INTO context_values (scope, key, value, updated_at) VALUES (?, ?, ?, ?)`,
+      [scope, key, JSON.stringify(value), Date.now()]
+    );
+  }
+
+  async listContextKeys(scope: string): Promise<string[]> {
+    const rows = this.db.query("SELECT key FROM context_values WHERE scope = ? ORDER BY key").all(scope) as { key: string }[];
+    return rows.map(row => row.key);
+  }
+
   close() {
     this.db.close();
   }
 }
 
+// JSON encode a message snapshot; binary data is stored as base64
+function serializeSnapshot(value: unknown): string {
+  return JSON.stringify(value, function (key, v) {
+    // Buffers have already been through toJSON here, so check the original
+    const raw = this[key];
+    if (typeof v === 'bigint') return v.toString();
+    if (raw instanceof Uint8Array || raw instanceof ArrayBuffer) {
+      return { type: 'Buffer', encoding: 'base64', data: Buffer.from(raw as Uint8Array).toString('base64') };
+    }
+    return v;
+  });
+}
+
+// Decode a snapshot written by serializeSnapshot, turning binary data back into Buffers
+function parseSnapshot(text: string): any {
+  return JSON.parse(text, (_key, v) =>
+    v?.type === 'Buffer' && v.encoding === 'base64' && typeof v.data === 'string' ? Buffer.from(v.data, 'base64') : v
+  );
+}
+
+// Database file lives next to the persisted workflows
+const DATA_DIR = join(import.meta.dir, "../../data");
+if (!existsSync(DATA_DIR)) {
+  mkdirSync(DATA_DIR, { recursive: true });
+}
+
 // Singleton instance
-export const db = new WorkflowDatabase();
\ No newline at end of file
+export const db = new WorkflowDatabase(join(DATA_DIR, "nodeflow.db"));
\ No newline at end of file
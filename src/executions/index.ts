@@ -0,0 +1,151 @@
+import { db, type WorkflowDatabase } from "../database/index.ts";
+import type { WorkflowEngine } from "../WorkflowEngine.ts";
+import { nodeDefinitionMap } from "../nodes/node-definitions.ts";
+import type {
+  ExecutionRunInfo,
+  ExecutionRecord,
+  ExecutionQuery,
+  NodeExecutionTrace,
+  StepCheckpoint,
+  WorkflowDefinition
+} from "../types/index.ts";
+
+export interface ReplayOptions {
+  nodeId: string;
+  occurrence?: number;
+  definition?: 'current' | 'historical'; // Defaults to the currently loaded definition
+}
+
+export interface ResumeOptions {
+  definition?: 'current' | 'historical'; // Defaults to the currently loaded definition
+}
+
+// Records every run of the engine (trigger, timing, status and per-node
+// input/output snapshots) into the database
+export class ExecutionHistory {
+  private maxRuns: number = 1000;
+  private completedSincePrune: number = 0;
+  private engine: WorkflowEngine | null = null;
+
+  constructor(private database: WorkflowDatabase) {}
+
+  // Subscribe to the engine's run and node events
+  attach(engine: WorkflowEngine) {
+    this.engine = engine;
+
+    engine.on('runStart', (run: ExecutionRunInfo, workflow?: WorkflowDefinition) => {
+      this.record(async () => {
+        const hash = workflow ? await this.database.saveWorkflowVersion(workflow) : null;
+        await this.database.createExecution(run, hash);
+      });
+    });
+
+    engine.on('nodeTrace', (trace: NodeExecutionTrace) => {
+      this.record(() => this.database.addNodeExecution(trace));
+    });
+
+    engine.on('stepCheckpoint', (checkpoint: StepCheckpoint) => {
+      this.record(() => this.database.saveStepCheckpoint(checkpoint));
+    });
+
+    engine.on('runComplete', (run: ExecutionRunInfo) => {
+      this.record(async () => {
+        await this.database.completeExecution(run);
+
+        // Prune in batches rather than after every run
+        if (++this.completedSincePrune >= 100) {
+          this.completedSincePrune = 0;
+          await this.database.pruneExecutions(this.maxRuns);
+        }
+      });
+    });
+  }
+
+  // Set how many runs are kept before the oldest are pruned
+  setRetention(maxRuns: number) {
+    this.maxRuns = maxRuns;
+  }
+
+  async list(query: ExecutionQuery = {}): Promise<ExecutionRecord[]> {
+    return await this.database.listExecutions(query);
+  }
+
+  async get(runId: string): Promise<ExecutionRecord | null> {
+    return await this.database.getExecution(runId);
+  }
+
+  // Re-run a recorded run from one of its nodes, feeding it the exact message it
+  // received. `occurrence` picks the execution when the node ran several times.
+  // Returns the run id of the replay.
+  async replay(runId: string, options: ReplayOptions): Promise<string> {
+    if (!this.engine) {
+      throw new Error('Execution history is not attached to an engine');
+    }
+
+    const execution = await this.database.getExecution(runId);
+    if (!execution) {
+      throw new Error(`Execution not found: ${runId}`);
+    }
+
+    const traces = (execution.nodes || []).filter(n => n.nodeId === options.nodeId);
+    const trace = traces[options.occurrence ?? 0];
+    if (!trace) {
+      throw new Error(`Node ${options.nodeId} did not execute in run ${runId}`);
+    }
+
+    const workflow = options.definition === 'historical'
+      ? execution.workflow
+      : this.engine.getWorkflow(execution.workflowId);
+    if (!workflow) {
+      throw new Error(options.definition === 'historical'
+        ? `No workflow definition recorded for run ${runId}`
+        : `Workflow not loaded: ${execution.workflowId}`);
+    }
+
+    // Source nodes (http-in, mqtt-in...) register listeners rather than process
+    // their input, so replay what they emitted instead of re-running them
+    if (nodeDefinitionMap.get(trace.nodeType)?.inputs === 0) {
+      const emitted = trace.outputs[0];
+      if (!emitted) {
+        throw new Error(`Node ${trace.nodeName} sent no message in run ${runId}`);
+      }
+      return await this.engine.replayFrom(workflow, trace.nodeId, emitted.message, {
+        output: emitted.output,
+        replayOf: runId
+      });
+    }
+
+    return await this.engine.replayFrom(workflow, trace.nodeId, trace.input, { replayOf: runId });
+  }
+
+  // Continue a step workflow run that failed, was cancelled or was cut short
+  // by a restart, at the step it stopped. Returns the run id of the resumed run.
+  async resume(runId: string, options: ResumeOptions = {}): Promise<string> {
+    if (!this.engine) {
+      throw new Error('Execution history is not attached to an engine');
+    }
+
+    const checkpoint = await this.database.getStepCheckpoint(runId);
+    if (!checkpoint) {
+      throw new Error(`No checkpoint recorded for run ${runId}`);
+    }
+
+    const workflow = options.definition === 'historical'
+      ? (await this.database.getExecution(runId))?.workflow
+      : this.engine.getWorkflow(checkpoint.workflowId);
+    if (!workflow) {
+      throw new Error(options.definition === 'historical'
+        ? `No workflow definition recorded for run ${runId}`
+        : `Workflow not loaded: ${checkpoint.workflowId}`);
+    }
+
+    return await this.engine.resumeFrom(workflow, checkpoint);
+  }
+
+  // History must never break a run, so storage errors are only logged
+  private record(write: () => Promise<void>) {
+    write().catch(err => console.error('Failed to record execution history:', err));
+  }
+}
+
+export const executionHistory = new ExecutionHistory(db);
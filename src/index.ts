@@ -5,5 +5,14 @@ export type {
   NodeConfig, 
   WorkflowDefinition, 
   NodeExecutionContext, 
-  NodeExecutor 
-} from "./types/index.ts";
\ No newline at end of file
+  NodeExecutor,
+  ExecutionEventInfo,
+  RetryPolicy,
+  SandboxPolicy,
+  StepFailurePolicy,
+  StepCheckpoint,
+  WorkflowDiagnostic,
+  ConcurrencyLimit,
+  ConcurrencyStats
+} from "./types/index.ts";
+export { QueueFullError } from "./concurrency/index.ts";
\ No newline at end of file
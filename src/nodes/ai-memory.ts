@@ -6,6 +6,7 @@ export interface Message {
   timestamp?: number;
   toolCallId?: string;
   toolName?: string;
+  toolInput?: unknown; // Arguments of the call a 'tool' message answers
 }
 
 export interface ConversationMemory {
@@ -1,9 +1,46 @@
-import type { WorkflowMessage, NodeExecutionContext, NodeExecutor } from "../types/index.ts";
+import type { WorkflowMessage, NodeConfig, NodeExecutionContext, NodeExecutor, MessageParts, SwitchRule } from "../types/index.ts";
 import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
 import { createDeepSeek } from '@ai-sdk/deepseek';
 import { createOpenRouter } from '@openrouter/ai-sdk-provider';
 import { createZhipu } from 'zhipu-ai-provider';
-import { generateText } from 'ai';
+import { generateText, streamText, tool, jsonSchema, stepCountIs, type LanguageModel, type ModelMessage, type ToolSet } from 'ai';
+import type { Message } from './ai-memory.ts';
+import { parseSwitchRules } from './node-definitions.ts';
+import { runUserCode } from '../sandbox/index.ts';
+
+// Sequences a join node is still collecting, keyed by workflow id, node id and group key
+interface JoinGroup {
+  messages: Array<{ msg: WorkflowMessage; index: number }>;
+  expected?: number;
+  timer?: ReturnType<typeof setTimeout>;
+  ctx: NodeExecutionContext; // Latest live invocation, used to send the result
+  waiters: Array<{ ctx: NodeExecutionContext; resolve: () => void; reject: (err: Error) => void }>;
+}
+
+const joinGroups = new Map<string, JoinGroup>();
+
+// Limit a rate-limit node applies to one key
+interface RateLimit {
+  mode: 'rate' | 'throttle' | 'debounce';
+  rate: number;     // Messages per interval (rate mode)
+  interval: number; // Milliseconds
+  queue: boolean;   // Hold excess messages back instead of dropping them
+  maxQueue: number;
+}
+
+// Messages a rate-limit node has seen for one key, keyed by workflow id, node id and key
+interface RateLimitState {
+  tokens: number;    // Left in the bucket (rate mode)
+  nextAt: number;    // When the next message may pass (throttle mode)
+  updatedAt: number;
+  interval: number;
+  held: Array<{ settle: (pass: boolean) => void }>; // Messages waiting, oldest first
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+const rateLimitStates = new Map<string, RateLimitState>();
+// Idle keys are forgotten once there are more than this many
+const MAX_IDLE_RATE_LIMIT_KEYS = 1000;
 
 export function registerBuiltInNodes(engine: { registerNodeType: (type: string, executor: NodeExecutor) => void; emit: (event: string, ...args: any[]) => boolean }) {
   // TRIGGER/INJECT NODE
@@ -29,52 +66,90 @@ export function registerBuiltInNodes(engine: { registerNodeType: (type: string,
   });
 
   // HTTP REQUEST NODE
+  // URL, query and header values may use {{path}} placeholders filled from the message
   engine.registerNodeType('http-request', async (msg: WorkflowMessage, ctx: NodeExecutionContext) => {
-    const { method = 'GET', url } = ctx.node.config;
-    
-    ctx.log(`${method} ${url}`);
-    
+    const {
+      method = 'GET',
+      url,
+      query = '{}',
+      headers = '{}',
+      bodyMode = 'json',
+      authType = 'none',
+      username = '',
+      password = '',
+      token = '',
+      responseType = 'auto',
+      timeout = 0,
+      followRedirects = true,
+      verifyTls = true,
+      splitErrors = false
+    } = ctx.node.config;
+
+    const target = new URL(fillTemplate(String(url ?? ''), msg, encodeURIComponent));
+    for (const [name, value] of Object.entries(parseJsonConfig(query))) {
+      target.searchParams.append(name, fillTemplate(String(value), msg));
+    }
+
+    const requestHeaders = new Headers();
+    const hasBody = method !== 'GET' && bodyMode !== 'none';
+    if (hasBody) requestHeaders.set('Content-Type', REQUEST_CONTENT_TYPES[bodyMode] ?? REQUEST_CONTENT_TYPES.json!);
+    if (authType === 'basic') {
+      requestHeaders.set('Authorization', `Basic ${Buffer.from(`${fillTemplate(username, msg)}:${fillTemplate(password, msg)}`).toString('base64')}`);
+    } else if (authType === 'bearer') {
+      requestHeaders.set('Authorization', `Bearer ${fillTemplate(token, msg)}`);
+    }
+    // Configured headers win, including Content-Type and Authorization
+    for (const [name, value] of Object.entries(parseJsonConfig(headers))) {
+      requestHeaders.set(name, fillTemplate(String(value), msg));
+    }
+
+    ctx.log(`${method} ${target}`);
+
+    const signal = Number(timeout) > 0
+      ? AbortSignal.any([ctx.signal, AbortSignal.timeout(Number(timeout))])
+      : ctx.signal;
+    let response: Response;
     try {
-      const headers: Record<string, string> = { ...ctx.node.config.headers };
-      if (method !== 'GET') {
-        headers['Content-Type'] = 'application/json';
-      }
-      
-      const response = await fetch(url, {
+      response = await fetch(target, {
         method,
-        headers,
-        body: method !== 'GET' ? JSON.stringify(msg.payload) : undefined
+        headers: requestHeaders,
+        body: hasBody ? requestBody(msg.payload, bodyMode) : undefined,
+        redirect: followRedirects ? 'follow' : 'manual',
+        tls: { rejectUnauthorized: verifyTls !== false },
+        signal
       });
-
-      let data;
-      const contentType = response.headers.get('content-type') || '';
-      if (contentType.includes('application/json')) {
-        data = await response.json();
-      } else {
-        data = await response.text();
+    } catch (err) {
+      // Only the request timeout is reported here; run aborts keep their reason
+      if (!ctx.signal.aborted && (err as Error).name === 'TimeoutError') {
+        throw Object.assign(new Error(`Request timed out after ${timeout}ms`), { name: 'TimeoutError' });
       }
-      
-      ctx.log(`✓ Response: ${response.status}`);
-      ctx.send({ payload: data, metadata: { statusCode: response.status } });
-    } catch (error) {
-      ctx.error('HTTP request failed', error as Error);
-      ctx.send({ ...msg, error: (error as Error).message });
+      throw err;
     }
+
+    const data = await responseBody(response, responseType);
+    ctx.log(`✓ Response: ${response.status}`);
+    ctx.send({
+      payload: data,
+      metadata: {
+        statusCode: response.status,
+        responseHeaders: Object.fromEntries(response.headers),
+        responseUrl: response.url || String(target)
+      }
+    }, splitErrors && !response.ok ? 1 : 0);
   });
 
   // FUNCTION NODE
   engine.registerNodeType('function', async (msg: WorkflowMessage, ctx: NodeExecutionContext) => {
     const code = ctx.node.config.code || 'return msg;';
     
-    try {
-      const func = new Function('msg', 'node', 'log', code);
-      const result = await func(msg, ctx.node, ctx.log);
-      
-      if (result) {
-        ctx.send(result);
-      }
-    } catch (error) {
-      ctx.error('Function execution failed', error as Error);
+    const result = await runUserCode(ctx, {
+      code,
+      args: { msg, node: ctx.node },
+      host: { log: ctx.log, flow: ctx.flow, global: ctx.global }
+    });
+    
+    if (result) {
+      ctx.send(result);
     }
   });
 
@@ -82,49 +157,120 @@ export function registerBuiltInNodes(engine: { registerNodeType: (type: string,
   engine.registerNodeType('filter', async (msg: WorkflowMessage, ctx: NodeExecutionContext) => {
     const condition = ctx.node.config.condition || 'true';
     
-    try {
-      const func = new Function('msg', `return ${condition}`);
-      const result = func(msg);
-      
-      ctx.log(`Condition result: ${result}`);
-      
-      // Output 0 for true, Output 1 for false
-      ctx.send(msg, result ? 0 : 1);
-    } catch (error) {
-      ctx.error('Filter evaluation failed', error as Error);
+    const result = await runUserCode(ctx, { code: `return ${condition}`, args: { msg } });
+    
+    ctx.log(`Condition result: ${result}`);
+    
+    // Output 0 for true, Output 1 for false
+    ctx.send(msg, result ? 0 : 1);
+  });
+
+  // SWITCH NODE - Ordered rules, each routed to its own output
+  engine.registerNodeType('switch', async (msg: WorkflowMessage, ctx: NodeExecutionContext) => {
+    const { property = 'payload', match = 'first', rules } = ctx.node.config;
+    const value = getPath(msg, property);
+
+    const matched: number[] = [];
+    for (const [i, rule] of parseSwitchRules(rules).entries()) {
+      if (match === 'first' && matched.length > 0) break;
+      // "else" only matches when no other rule did
+      if (rule.type === 'else' ? matched.length === 0 : await switchRuleMatches(rule, value, msg, ctx)) {
+        matched.push(i);
+      }
+    }
+
+    ctx.log(`${property} matched ${matched.length > 0 ? `rule ${matched.map(i => i + 1).join(', ')}` : 'no rule'}`);
+    for (const output of matched) {
+      ctx.send(msg, output);
     }
   });
 
+  // CATCH NODE - The engine delivers failures of other nodes here
+  engine.registerNodeType('catch', async (msg: WorkflowMessage, ctx: NodeExecutionContext) => {
+    const source = msg.metadata?.error?.source;
+    ctx.log(`Caught error from ${source?.name || 'unknown node'}: ${msg.error}`);
+    ctx.send(msg);
+  });
+
+  // SUBFLOW PORTS - The engine feeds subflow-in and forwards what reaches
+  // subflow-out to the subflow node's outputs; the nodes only pass through
+  engine.registerNodeType('subflow-in', async (msg: WorkflowMessage, ctx: NodeExecutionContext) => {
+    ctx.send(msg);
+  });
+
+  engine.registerNodeType('subflow-out', async (msg: WorkflowMessage, ctx: NodeExecutionContext) => {
+    ctx.send(msg);
+  });
+
   // DELAY NODE
   engine.registerNodeType('delay', async (msg: WorkflowMessage, ctx: NodeExecutionContext) => {
     const delay = ctx.node.config.delay || 1000;
     ctx.log(`Delaying ${delay}ms`);
     
-    await new Promise(resolve => setTimeout(resolve, delay));
+    await sleep(delay, ctx.signal);
     ctx.send(msg);
   });
 
+  // RATE LIMIT NODE - Sends messages within the limit on output 1 and the ones
+  // it drops on output 2. A held back message keeps its invocation (and run)
+  // waiting until it is released or dropped.
+  engine.registerNodeType('rate-limit', async (msg: WorkflowMessage, ctx: NodeExecutionContext) => {
+    const { mode = 'rate', rate = 1, interval = 1000, keyPath = '', excess = 'queue', maxQueue = 100 } = ctx.node.config;
+    const limit: RateLimit = {
+      mode,
+      rate: Math.max(1, Number(rate) || 1),
+      interval: Math.max(1, Number(interval) || 1000),
+      queue: excess === 'queue',
+      maxQueue: Math.max(0, Number(maxQueue) || 0)
+    };
+    const groupKey = keyPath ? String(getPath(msg, keyPath)) : '';
+    // Node ids like '1' are reused across workflows
+    const key = `${ctx.workflowId}:${ctx.node.id}:${groupKey}`;
+
+    let state = rateLimitStates.get(key);
+    if (!state) {
+      if (rateLimitStates.size >= MAX_IDLE_RATE_LIMIT_KEYS) forgetIdleRateLimits();
+      state = { tokens: limit.rate, nextAt: 0, updatedAt: Date.now(), interval: limit.interval, held: [] };
+      rateLimitStates.set(key, state);
+    }
+    state.interval = limit.interval;
+
+    const pass = await (
+      limit.mode === 'debounce' ? debounce(state, limit, ctx.signal)
+        : limit.mode === 'throttle' ? throttle(state, limit, ctx.signal)
+          : takeToken(state, limit, ctx.signal)
+    );
+
+    if (pass) {
+      ctx.send(msg);
+    } else {
+      ctx.log(`Dropped message${groupKey ? ` for ${groupKey}` : ''} (${limit.mode})`);
+      ctx.send(msg, 1);
+    }
+  });
+
   // TRANSFORM NODE
   engine.registerNodeType('transform', async (msg: WorkflowMessage, ctx: NodeExecutionContext) => {
     const { operation, field, value } = ctx.node.config;
     
-    let result = { ...msg };
+    // Works on a copy, so the input message stays as it was received
+    const payload = { ...msg.payload };
     
     switch (operation) {
       case 'set':
-        result.payload[field] = value;
+        payload[field] = value;
         break;
       case 'delete':
-        delete result.payload[field];
+        delete payload[field];
         break;
       case 'rename':
-        result.payload[value] = result.payload[field];
-        delete result.payload[field];
+        payload[value] = payload[field];
+        delete payload[field];
         break;
     }
     
     ctx.log(`Transformed: ${operation} ${field}`);
-    ctx.send(result);
+    ctx.send({ ...msg, payload });
   });
 
   // DEBUG/LOG NODE
@@ -139,12 +285,7 @@ export function registerBuiltInNodes(engine: { registerNodeType: (type: string,
       data = msg;
     } else if (output === 'custom' && customPath) {
       // Show custom path (e.g., "payload.result", "metadata.timestamp")
-      const keys = customPath.trim().split('.');
-      data = msg as any;
-      for (const key of keys) {
-        if (data === undefined || data === null) break;
-        data = data[key];
-      }
+      data = getPath(msg, customPath);
       if (data === undefined) {
         data = { error: `Path "${customPath}" not found in message` };
       }
@@ -158,13 +299,22 @@ export function registerBuiltInNodes(engine: { registerNodeType: (type: string,
 
   // TEMPLATE NODE
   engine.registerNodeType('template', async (msg: WorkflowMessage, ctx: NodeExecutionContext) => {
-    const template = ctx.node.config.template || '';
+    const template: string = ctx.node.config.template || '';
     let result = template;
+
+    // {{flow.key}} and {{global.key}} read the context store
+    const scopes: { flow: Record<string, any>; global: Record<string, any> } = { flow: {}, global: {} };
+    for (const [, path] of template.matchAll(/\{\{(.+?)\}\}/g)) {
+      const [scope, key] = path!.trim().split('.');
+      if ((scope === 'flow' || scope === 'global') && key && !(key in scopes[scope])) {
+        scopes[scope][key] = await ctx[scope].get(key);
+      }
+    }
     
     // Simple template replacement
     result = result.replace(/\{\{(.+?)\}\}/g, (match: string, path: string) => {
       const keys = path.trim().split('.');
-      let value: any = msg;
+      let value: any = { ...msg, ...scopes };
       for (const key of keys) {
         value = value?.[key];
       }
@@ -174,28 +324,121 @@ export function registerBuiltInNodes(engine: { registerNodeType: (type: string,
     ctx.send({ payload: result });
   });
 
-  // JOIN NODE
+  // JOIN NODE - Buffers a sequence until it is complete, then emits it as one message.
+  // Every invocation waits for its group so the run lasts until the join emits.
   engine.registerNodeType('join', async (msg: WorkflowMessage, ctx: NodeExecutionContext) => {
-    const { mode = 'array', timeout = 5000 } = ctx.node.config;
-    
-    // Simple implementation - in production, would need message buffering
-    ctx.log(`Joining messages (${mode})`);
-    ctx.send(msg);
+    const { mode = 'array', count = 0, groupBy = '', keyPath = 'metadata.parts.key', timeout = 5000 } = ctx.node.config;
+    const parts: MessageParts | undefined = msg.metadata?.parts;
+
+    // Sequences are grouped by a configured path or the split id. Otherwise a
+    // count collects messages across runs (e.g. one per mqtt-in message),
+    // while loop items are grouped by their run.
+    const groupKey = groupBy ? String(getPath(msg, groupBy)) : parts?.id ?? (Number(count) ? '' : ctx.runId);
+    const key = `${ctx.workflowId}:${ctx.node.id}:${groupKey}`;
+
+    const group: JoinGroup = joinGroups.get(key) ?? { messages: [], ctx, waiters: [] };
+    if (!joinGroups.has(key)) {
+      joinGroups.set(key, group);
+      if (timeout > 0) {
+        group.timer = setTimeout(() => flush(false), timeout);
+      }
+    }
+
+    const index = parts?.index ?? msg.metadata?.loopIndex ?? group.messages.length;
+    group.messages.push({ msg, index });
+    group.ctx = ctx;
+    group.expected = Number(count) || parts?.count || msg.metadata?.loopTotal || group.expected;
+
+    function flush(complete: boolean) {
+      if (joinGroups.get(key) !== group) return;
+      joinGroups.delete(key);
+      clearTimeout(group.timer);
+
+      const ordered = [...group.messages].sort((a, b) => a.index - b.index);
+      let payload: any;
+      if (mode === 'object') {
+        payload = Object.assign({}, ...ordered.map(m => m.msg.payload));
+      } else if (mode === 'keyvalue') {
+        payload = Object.fromEntries(ordered.map(m => [getPath(m.msg, keyPath) ?? m.index, m.msg.payload]));
+      } else {
+        payload = ordered.map(m => m.msg.payload);
+      }
+
+      // The sequence ends here; rejoining a nested split puts the message
+      // back into the outer sequence
+      const metadata = {
+        ...ordered[0]!.msg.metadata,
+        parts: ordered[0]!.msg.metadata?.parts?.parent,
+        loopIndex: undefined,
+        loopTotal: undefined,
+        joined: { count: ordered.length, complete }
+      };
+      group.ctx.log(`Joined ${ordered.length}${group.expected ? `/${group.expected}` : ''} messages (${mode})${complete ? '' : ' after timeout'}`);
+      group.ctx.send({ payload, metadata });
+      group.waiters.forEach(w => w.resolve());
+    }
+
+    let waiter!: JoinGroup['waiters'][number];
+    const done = new Promise<void>((resolve, reject) => group.waiters.push(waiter = { ctx, resolve, reject }));
+
+    // A cancelled or timed out run withdraws its message and stops waiting;
+    // other runs in the group keep collecting
+    ctx.signal.addEventListener('abort', () => {
+      if (joinGroups.get(key) !== group) return;
+      group.messages = group.messages.filter(m => m.msg !== msg);
+      group.waiters = group.waiters.filter(w => w !== waiter);
+      waiter.reject(ctx.signal.reason);
+      if (group.waiters.length === 0) {
+        joinGroups.delete(key);
+        clearTimeout(group.timer);
+      } else if (group.ctx === ctx) {
+        group.ctx = group.waiters[group.waiters.length - 1]!.ctx;
+      }
+    }, { once: true });
+
+    if (group.expected && group.messages.length >= group.expected) {
+      flush(true);
+    } else if (!group.timer && !group.expected) {
+      joinGroups.delete(key);
+      throw new Error('Join needs a count, sequence metadata (split parts or loop) or a timeout');
+    }
+
+    await done;
   });
 
-  // SPLIT NODE
+  // SPLIT NODE - Emits one message per array item/chunk, object key or string
+  // segment, each tagged with metadata.parts so join can reassemble them
   engine.registerNodeType('split', async (msg: WorkflowMessage, ctx: NodeExecutionContext) => {
-    const { field = 'payload' } = ctx.node.config;
-    const data = field === 'payload' ? msg.payload : (msg as any)[field];
-    
+    const { field = 'payload', delimiter = '\\n', chunkSize = 1 } = ctx.node.config;
+    const data = getPath(msg, field);
+
+    let items: Array<{ value: any; key?: string }>;
     if (Array.isArray(data)) {
-      ctx.log(`Splitting array (${data.length} items)`);
-      for (const item of data) {
-        ctx.send({ payload: item });
+      const size = Math.max(1, Number(chunkSize) || 1);
+      items = [];
+      for (let i = 0; i < data.length; i += size) {
+        items.push({ value: size === 1 ? data[i] : data.slice(i, i + size) });
       }
+      ctx.log(`Splitting array (${data.length} items${size > 1 ? ` in chunks of ${size}` : ''})`);
+    } else if (typeof data === 'string') {
+      // Config values are typed in the editor, so "\n" means a newline
+      const separator = String(delimiter).replace(/\\n/g, '\n').replace(/\\t/g, '\t');
+      items = data.split(separator).map(value => ({ value }));
+      ctx.log(`Splitting string (${items.length} segments)`);
+    } else if (data !== null && typeof data === 'object') {
+      items = Object.entries(data).map(([key, value]) => ({ value, key }));
+      ctx.log(`Splitting object (${items.length} keys)`);
     } else {
       ctx.send(msg);
+      return;
     }
+
+    const id = crypto.randomUUID();
+    const parent: MessageParts | undefined = msg.metadata?.parts;
+    items.forEach(({ value, key }, index) => {
+      const parts: MessageParts = { id, index, count: items.length, key, parent };
+      ctx.send({ ...msg, payload: value, metadata: { ...msg.metadata, parts } });
+    });
   });
 
   // LOOP NODE
@@ -217,8 +460,9 @@ export function registerBuiltInNodes(engine: { registerNodeType: (type: string,
       
       ctx.log(`Looping foreach (${array.length} items)${delay > 0 ? ` with ${delay}ms delay` : ''}`);
       for (let i = 0; i < array.length; i++) {
+        ctx.signal.throwIfAborted();
         if (delay > 0 && i > 0) {
-          await new Promise(resolve => setTimeout(resolve, delay));
+          await sleep(delay, ctx.signal);
         }
         ctx.log(`  → Iteration ${i + 1}/${array.length}`);
         ctx.send({ 
@@ -230,8 +474,9 @@ export function registerBuiltInNodes(engine: { registerNodeType: (type: string,
       // Count mode - loop N times
       ctx.log(`Looping ${count} times (count mode)${delay > 0 ? ` with ${delay}ms delay` : ''}`);
       for (let i = 0; i < count; i++) {
+        ctx.signal.throwIfAborted();
         if (delay > 0 && i > 0) {
-          await new Promise(resolve => setTimeout(resolve, delay));
+          await sleep(delay, ctx.signal);
         }
         ctx.log(`  → Loop iteration ${i + 1}/${count}`);
         ctx.send({ 
@@ -317,13 +562,13 @@ export function registerBuiltInNodes(engine: { registerNodeType: (type: string,
       maxTokens = 1000,
       memory = '[]',
       tools = '[]',
-      outputParser = 'none'
+      maxSteps = 5,
+      outputParser = 'none',
+      stream = false
     } = ctx.node.config;
     
     if (!aiConfig) {
-      ctx.error('AI configuration not set');
-      ctx.send({ ...msg, error: 'AI configuration not set' });
-      return;
+      throw new Error('AI configuration not set');
     }
 
     // Process template in prompt
@@ -348,145 +593,163 @@ export function registerBuiltInNodes(engine: { registerNodeType: (type: string,
 
     ctx.log(`🤖 Prompt: "${processedPrompt.length > 100 ? processedPrompt.substring(0, 100) + '...' : processedPrompt}"`);
 
+    // Parse memory configuration
+    let memoryConfig: any[] = [];
     try {
-      // Parse memory configuration
-      let memoryConfig: any[] = [];
-      try {
-        memoryConfig = JSON.parse(memory);
-      } catch (e) {
-        ctx.log('⚠️ Invalid memory JSON, using empty array');
-      }
+      memoryConfig = JSON.parse(memory);
+    } catch (e) {
+      ctx.log('⚠️ Invalid memory JSON, using empty array');
+    }
 
-      // Parse tools configuration
-      let toolsConfig: any[] = [];
-      try {
-        toolsConfig = JSON.parse(tools);
-      } catch (e) {
-        ctx.log('⚠️ Invalid tools JSON, using empty array');
-      }
+    // Parse tools configuration
+    let toolsConfig: AIToolDefinition[] = [];
+    try {
+      toolsConfig = Array.isArray(tools) ? tools : JSON.parse(tools);
+    } catch (e) {
+      ctx.log('⚠️ Invalid tools JSON, using empty array');
+    }
 
-      // Get conversation ID from payload or use node ID
-      const conversationId = msg.payload.conversationId || ctx.node.id;
-      
-      // Import AI Memory Manager
-      const { AIMemoryManager } = await import('./ai-memory.ts');
-      
-      // Get conversation history
-      const history = AIMemoryManager.getHistory(conversationId);
-      
-      // Build messages array
-      const messages: any[] = [];
-      
-      // Add system prompt if provided
-      if (processedSystemPrompt) {
-        messages.push({ role: 'system', content: processedSystemPrompt });
-      }
-      
-      // Add conversation history
-      messages.push(...history.map(h => ({ role: h.role, content: h.content })));
-      
-      // Add current user message
-      messages.push({ role: 'user', content: processedPrompt });
-      
-      // Add user message to memory
-      AIMemoryManager.addMessage(conversationId, {
-        role: 'user',
-        content: processedPrompt,
-      });
+    // Get conversation ID from payload or use node ID
+    const conversationId = msg.payload.conversationId || ctx.node.id;
+    
+    // Import AI Memory Manager
+    const { AIMemoryManager } = await import('./ai-memory.ts');
+    
+    // Get conversation history
+    const history = AIMemoryManager.getHistory(conversationId);
+    
+    // Build messages array
+    const messages: any[] = [];
+    
+    // Add system prompt if provided
+    if (processedSystemPrompt) {
+      messages.push({ role: 'system', content: processedSystemPrompt });
+    }
+    
+    // Add conversation history
+    messages.push(...historyMessages(history));
+    
+    // Add current user message
+    messages.push({ role: 'user', content: processedPrompt });
+    
+    // Add user message to memory
+    AIMemoryManager.addMessage(conversationId, {
+      role: 'user',
+      content: processedPrompt,
+    });
 
-      // Create provider based on type
-      const providerType = aiConfig.provider || 'openai-compatible';
-      let result: { text: string; usage?: any; toolCalls?: any[] };
-      
-      const generateOptions: any = {
-        messages,
-        temperature,
-        maxTokens,
-      };
+    let result: { text: string; usage?: any };
+    
+    const generateOptions: any = {
+      messages,
+      temperature,
+      maxTokens,
+      abortSignal: ctx.signal,
+    };
 
-      // Add tools if configured
-      if (toolsConfig.length > 0) {
-        generateOptions.tools = toolsConfig;
+    // Tools run through the engine, and their results are remembered as
+    // 'tool' messages. The model gets up to maxSteps rounds of calls.
+    const toolCalls: AIToolCall[] = [];
+    if (toolsConfig.length > 0) {
+      generateOptions.tools = aiTools(toolsConfig, ctx, (call) => {
+        toolCalls.push(call);
+        AIMemoryManager.addMessage(conversationId, {
+          role: 'tool',
+          content: JSON.stringify(call.error !== undefined ? { error: call.error } : call.output ?? null),
+          toolCallId: call.toolCallId,
+          toolName: call.toolName,
+          toolInput: call.input
+        });
+      });
+      generateOptions.stopWhen = stepCountIs(Math.max(1, Number(maxSteps) || 1));
+    }
+
+    // Create provider based on type
+    const providerType = aiConfig.provider || 'openai-compatible';
+    let model: LanguageModel;
+    switch (providerType) {
+      case 'deepseek': {
+        const deepseek = createDeepSeek({ apiKey: aiConfig.apiKey });
+        model = deepseek(aiConfig.model);
+        break;
+      }
+      case 'openrouter': {
+        const openrouter = createOpenRouter({ apiKey: aiConfig.apiKey });
+        model = openrouter.chat(aiConfig.model);
+        break;
+      }
+      case 'zhipu': {
+        const zhipu = createZhipu({ 
+          apiKey: aiConfig.apiKey,
+          baseURL: aiConfig.baseUrl 
+        });
+        model = zhipu(aiConfig.model) as any;
+        break;
+      }
+      case 'openai-compatible':
+      default: {
+        const provider = createOpenAICompatible({
+          name: aiConfig.name || 'custom-provider',
+          apiKey: aiConfig.apiKey,
+          baseURL: aiConfig.baseUrl,
+        });
+        model = provider(aiConfig.model);
+        break;
       }
+    }
 
-      switch (providerType) {
-        case 'deepseek': {
-          const deepseek = createDeepSeek({ apiKey: aiConfig.apiKey });
-          result = await generateText({
-            model: deepseek(aiConfig.model),
-            ...generateOptions,
-          });
-          break;
-        }
-        case 'openrouter': {
-          const openrouter = createOpenRouter({ apiKey: aiConfig.apiKey });
-          result = await generateText({
-            model: openrouter.chat(aiConfig.model),
-            ...generateOptions,
-          });
-          break;
-        }
-        case 'zhipu': {
-          const zhipu = createZhipu({ 
-            apiKey: aiConfig.apiKey,
-            baseURL: aiConfig.baseUrl 
-          });
-          result = await generateText({
-            model: zhipu(aiConfig.model) as any,
-            ...generateOptions,
-          });
-          break;
-        }
-        case 'openai-compatible':
-        default: {
-          const provider = createOpenAICompatible({
-            name: aiConfig.name || 'custom-provider',
-            apiKey: aiConfig.apiKey,
-            baseURL: aiConfig.baseUrl,
-          });
-          result = await generateText({
-            model: provider(aiConfig.model),
-            ...generateOptions,
-          });
-          break;
-        }
+    if (stream) {
+      // Chunks leave on output 1 as they arrive; a last one with done: true
+      // marks the end, before the full response goes out on output 0
+      let streamError: unknown;
+      const streamed = streamText({
+        model,
+        ...generateOptions,
+        onError: ({ error }) => { streamError = error; },
+      });
+      let index = 0;
+      for await (const chunk of streamed.textStream) {
+        ctx.send({ payload: { chunk, index: index++, done: false, conversationId } }, 1);
       }
+      // streamText reports failures through onError instead of throwing
+      if (streamError) throw streamError;
+      ctx.send({ payload: { chunk: '', index, done: true, conversationId } }, 1);
+      result = { text: await streamed.text, usage: await streamed.usage };
+    } else {
+      result = await generateText({ model, ...generateOptions });
+    }
 
-      const { text, usage, toolCalls } = result;
+    const { text, usage } = result;
 
-      // Add assistant response to memory
-      AIMemoryManager.addMessage(conversationId, {
-        role: 'assistant',
-        content: text,
-      });
+    // Add assistant response to memory
+    AIMemoryManager.addMessage(conversationId, {
+      role: 'assistant',
+      content: text,
+    });
 
-      ctx.log(`✓ Response: "${text.substring(0, 100)}..."`);
-      ctx.log(`💾 Memory: ${AIMemoryManager.getHistory(conversationId).length} messages`);
-      
-      // Parse output based on parser type
-      let parsedOutput = text;
-      if (outputParser === 'json') {
-        try {
-          parsedOutput = JSON.parse(text);
-        } catch (e) {
-          ctx.log('⚠️ Failed to parse JSON output, returning raw text');
-        }
+    ctx.log(`✓ Response: "${text.substring(0, 100)}..."`);
+    ctx.log(`💾 Memory: ${AIMemoryManager.getHistory(conversationId).length} messages`);
+    
+    // Parse output based on parser type
+    let parsedOutput = text;
+    if (outputParser === 'json') {
+      try {
+        parsedOutput = JSON.parse(text);
+      } catch (e) {
+        ctx.log('⚠️ Failed to parse JSON output, returning raw text');
       }
-      
-      ctx.send({
-        payload: {
-          ...msg.payload,
-          response: parsedOutput,
-          conversationId,
-          usage,
-          toolCalls,
-          messageCount: AIMemoryManager.getHistory(conversationId).length
-        }
-      });
-    } catch (error) {
-      ctx.error('AI Generate failed', error as Error);
-      ctx.send({ ...msg, error: (error as Error).message });
     }
+    
+    ctx.send({
+      payload: {
+        ...msg.payload,
+        response: parsedOutput,
+        conversationId,
+        usage,
+        toolCalls,
+        messageCount: AIMemoryManager.getHistory(conversationId).length
+      }
+    });
   });
 
   // UI DASHBOARD NODES
@@ -535,4 +798,314 @@ export function registerBuiltInNodes(engine: { registerNodeType: (type: string,
     const widgetKey = `${ctx.workflowId || 'default'}-${ctx.node.id}`;
     engine.emit('ui-update', { nodeId: widgetKey, type: 'switch', label, value });
   });
-}
\ No newline at end of file
+}
+
+// Resolve after `ms`, or reject with the abort reason when the signal fires first
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal.throwIfAborted();
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Token bucket: holds `rate` tokens and refills them evenly over the interval;
+// every message takes one
+function takeToken(state: RateLimitState, limit: RateLimit, signal: AbortSignal): Promise<boolean> {
+  refillTokens(state, limit);
+  if (state.held.length === 0 && state.tokens >= 1) {
+    state.tokens--;
+    return Promise.resolve(true);
+  }
+  if (!limit.queue || state.held.length >= limit.maxQueue) return Promise.resolve(false);
+
+  const pass = holdMessage(state, signal);
+  const release = () => {
+    state.timer = undefined;
+    refillTokens(state, limit);
+    while (state.held.length > 0 && state.tokens >= 1) {
+      state.tokens--;
+      state.held.shift()!.settle(true);
+    }
+    if (state.held.length > 0) {
+      state.timer = setTimeout(release, Math.ceil((1 - state.tokens) * limit.interval / limit.rate));
+    }
+  };
+  state.timer ??= setTimeout(release, Math.ceil((1 - state.tokens) * limit.interval / limit.rate));
+  return pass;
+}
+
+function refillTokens(state: RateLimitState, limit: RateLimit) {
+  const now = Date.now();
+  state.tokens = Math.min(limit.rate, state.tokens + (now - state.updatedAt) * limit.rate / limit.interval);
+  state.updatedAt = now;
+}
+
+// One message per interval. Excess messages are dropped, or the latest one is
+// held back and sent when the interval ends, replacing any held before it.
+function throttle(state: RateLimitState, limit: RateLimit, signal: AbortSignal): Promise<boolean> {
+  const now = Date.now();
+  state.updatedAt = now;
+  if (now >= state.nextAt && state.held.length === 0) {
+    state.nextAt = now + limit.interval;
+    return Promise.resolve(true);
+  }
+  if (!limit.queue) return Promise.resolve(false);
+
+  state.held.shift()?.settle(false);
+  const pass = holdMessage(state, signal);
+  state.timer ??= setTimeout(() => {
+    state.timer = undefined;
+    state.nextAt = Date.now() + limit.interval;
+    state.held.shift()?.settle(true);
+  }, Math.max(0, state.nextAt - now));
+  return pass;
+}
+
+// Only the last message of a burst passes, once no other one arrived for the
+// interval; every message before it is dropped
+function debounce(state: RateLimitState, limit: RateLimit, signal: AbortSignal): Promise<boolean> {
+  state.updatedAt = Date.now();
+  state.held.shift()?.settle(false);
+  clearTimeout(state.timer);
+
+  const pass = holdMessage(state, signal);
+  state.timer = setTimeout(() => {
+    state.timer = undefined;
+    state.held.shift()?.settle(true);
+  }, limit.interval);
+  return pass;
+}
+
+// Queue a message until it is released or dropped; a cancelled run takes its
+// message out of the queue
+function holdMessage(state: RateLimitState, signal: AbortSignal): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    signal.throwIfAborted();
+    const entry = {
+      settle: (pass: boolean) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(pass);
+      }
+    };
+    const onAbort = () => {
+      state.held.splice(state.held.indexOf(entry), 1);
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    state.held.push(entry);
+  });
+}
+
+// Drop keys nothing is held for and whose limit has fully recovered
+function forgetIdleRateLimits() {
+  const now = Date.now();
+  for (const [key, state] of rateLimitStates) {
+    if (state.held.length === 0 && !state.timer && now - state.updatedAt >= state.interval && now >= state.nextAt) {
+      rateLimitStates.delete(key);
+    }
+  }
+}
+
+async function switchRuleMatches(rule: SwitchRule, value: any, msg: WorkflowMessage, ctx: NodeExecutionContext): Promise<boolean> {
+  switch (rule.type) {
+    case 'eq':
+      return typeof rule.value === 'object' && rule.value !== null
+        ? JSON.stringify(value) === JSON.stringify(rule.value)
+        : value === rule.value || (value !== null && value !== undefined && String(value) === String(rule.value));
+    case 'regex':
+      return new RegExp(rule.value).test(String(value));
+    case 'range': {
+      const num = Number(value);
+      if (value === null || value === '' || Number.isNaN(num)) return false;
+      return (rule.min === undefined || num >= rule.min) && (rule.max === undefined || num <= rule.max);
+    }
+    case 'type': {
+      const actual = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+      return actual === rule.value;
+    }
+    case 'js':
+      return Boolean(await runUserCode(ctx, { code: `return (${rule.value})`, args: { msg, value } }));
+    default:
+      return false;
+  }
+}
+
+// Replace {{path}} placeholders with values from the message; objects are
+// inserted as JSON and missing values as ''
+function fillTemplate(text: string, msg: WorkflowMessage, encode: (value: string) => string = value => value): string {
+  return text.replace(/\{\{(.+?)\}\}/g, (_match: string, path: string) => {
+    const value = getPath(msg, path);
+    if (value === undefined || value === null) return '';
+    return encode(typeof value === 'object' ? JSON.stringify(value) : String(value));
+  });
+}
+
+// Key/value config edited as JSON in the UI, or set as an object
+function parseJsonConfig(value: unknown): Record<string, any> {
+  if (value && typeof value === 'object') return value as Record<string, any>;
+  const parsed = JSON.parse(String(value || '{}'));
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Expected a JSON object, got ${value}`);
+  }
+  return parsed;
+}
+
+const REQUEST_CONTENT_TYPES: Record<string, string> = {
+  json: 'application/json',
+  form: 'application/x-www-form-urlencoded',
+  text: 'text/plain; charset=utf-8',
+  binary: 'application/octet-stream'
+};
+
+// Request body for a body mode; binary takes bytes or a base64 string
+function requestBody(payload: any, bodyMode: string): BodyInit {
+  switch (bodyMode) {
+    case 'form': {
+      const form = new URLSearchParams();
+      for (const [name, value] of Object.entries(payload ?? {})) {
+        for (const item of Array.isArray(value) ? value : [value]) {
+          form.append(name, typeof item === 'object' && item !== null ? JSON.stringify(item) : String(item));
+        }
+      }
+      return form;
+    }
+    case 'text':
+      return typeof payload === 'string' ? payload : JSON.stringify(payload);
+    case 'binary':
+      return payload instanceof Uint8Array || payload instanceof ArrayBuffer
+        ? payload as BodyInit
+        : new Uint8Array(Buffer.from(String(payload ?? ''), 'base64'));
+    default:
+      return JSON.stringify(payload);
+  }
+}
+
+// 'auto' parses JSON, reads text-like types as a string and anything else
+// (images, PDFs...) as a Buffer
+async function responseBody(response: Response, responseType: string): Promise<any> {
+  const contentType = response.headers.get('content-type') || '';
+  const type = responseType !== 'auto' ? responseType
+    : contentType.includes('json') ? 'json'
+      : contentType === '' || /^text\/|xml|javascript|x-www-form-urlencoded/.test(contentType) ? 'text'
+        : 'binary';
+
+  if (type === 'binary') return Buffer.from(await response.arrayBuffer());
+  const text = await response.text();
+  if (type !== 'json') return text;
+  try {
+    return text === '' ? null : JSON.parse(text);
+  } catch {
+    // A server mislabelling its response shouldn't fail the request
+    return text;
+  }
+}
+
+// A tool an ai-generate node offers the model. Calling it runs a node of the
+// workflow (e.g. a hyperflow-tool), a subflow workflow or an http-request
+// config with the call's arguments as msg.payload; the tool answers with the
+// payload the node sends.
+interface AIToolDefinition {
+  name: string;
+  description?: string;
+  parameters?: Record<string, any>; // JSON Schema of the arguments
+  node?: string; // Id or name of a node in the workflow
+  subflow?: string; // Workflow id
+  httpRequest?: Record<string, any>; // http-request node config
+}
+
+// A tool call the model made, with the tool's answer or failure
+interface AIToolCall {
+  toolCallId: string;
+  toolName: string;
+  input: unknown;
+  output?: unknown;
+  error?: string;
+}
+
+function aiTools(definitions: AIToolDefinition[], ctx: NodeExecutionContext, onCall: (call: AIToolCall) => void): ToolSet {
+  const tools: ToolSet = {};
+  for (const definition of definitions) {
+    const { name } = definition;
+    const target = toolTarget(definition, ctx.node.id);
+    tools[name] = tool({
+      description: definition.description,
+      inputSchema: jsonSchema(definition.parameters ?? { type: 'object', properties: {} }),
+      execute: async (input: unknown, { toolCallId }) => {
+        ctx.log(`🔧 Tool ${name}: ${JSON.stringify(input)}`);
+        try {
+          const outputs = await ctx.call(target, { payload: input, metadata: { toolCallId, toolName: name } });
+          // Nothing sent answers null; several messages answer all their payloads
+          const output = outputs.length > 1 ? outputs.map(out => out.payload) : outputs[0]?.payload ?? null;
+          onCall({ toolCallId, toolName: name, input, output });
+          return output;
+        } catch (err) {
+          // The SDK hands the failure to the model, which may retry or give up
+          onCall({ toolCallId, toolName: name, input, error: (err as Error).message });
+          throw err;
+        }
+      }
+    });
+  }
+  return tools;
+}
+
+// What a tool call executes; subflows and http-request configs become nodes
+// that aren't part of the workflow
+function toolTarget(definition: AIToolDefinition, nodeId: string): string | NodeConfig {
+  if (!definition.name) {
+    throw new Error('Every tool needs a name');
+  }
+  const id = `${nodeId}:${definition.name}`;
+  if (definition.node) return definition.node;
+  if (definition.subflow) {
+    return { id, type: 'subflow', name: definition.name, config: { workflowId: definition.subflow }, wires: [] };
+  }
+  if (definition.httpRequest) {
+    return { id, type: 'http-request', name: definition.name, config: definition.httpRequest, wires: [] };
+  }
+  throw new Error(`Tool ${definition.name} needs a node, subflow or httpRequest`);
+}
+
+// Conversation history as model messages. A run of 'tool' entries becomes
+// the assistant's tool calls followed by their results.
+function historyMessages(history: Message[]): ModelMessage[] {
+  const messages: ModelMessage[] = [];
+  for (let i = 0; i < history.length; i++) {
+    const entry = history[i]!;
+    if (entry.role !== 'tool') {
+      messages.push({ role: entry.role, content: entry.content });
+      continue;
+    }
+
+    const calls: Message[] = [];
+    for (; history[i]?.role === 'tool'; i++) calls.push(history[i]!);
+    i--;
+    messages.push({
+      role: 'assistant',
+      content: calls.map(call => ({ type: 'tool-call', toolCallId: call.toolCallId ?? '', toolName: call.toolName ?? '', input: call.toolInput ?? {} }))
+    });
+    messages.push({
+      role: 'tool',
+      content: calls.map(call => ({ type: 'tool-result', toolCallId: call.toolCallId ?? '', toolName: call.toolName ?? '', output: { type: 'text', value: call.content } }))
+    });
+  }
+  return messages;
+}
+
+// Read a dot-separated path (e.g. "payload.items.0") from a message
+function getPath(obj: any, path: string): any {
+  let value = obj;
+  for (const key of path.trim().split('.')) {
+    if (value === undefined || value === null) return undefined;
+    value = value[key];
+  }
+  return value;
+}
@@ -4,6 +4,7 @@
 // =========================
 
 import type { WorkflowMessage, NodeExecutionContext, NodeExecutor } from "../types/index.ts";
+import { runUserCode } from "../sandbox/index.ts";
 
 // --- Reactive signal holder ---
 class Signal<T = any> {
@@ -40,7 +41,7 @@ interface HyperflowHelpers {
 }
 
 // --- DAG executor (parallel with deps) ---
-async function runDag(nodes: DagNode[], ctx: HyperflowContext, helpers: HyperflowHelpers): Promise<void> {
+export async function runDag(nodes: DagNode[], ctx: HyperflowContext, helpers: HyperflowHelpers): Promise<void> {
   const byId = new Map<string, DagNode>();
   const indegree = new Map<string, number>();
   const adj = new Map<string, string[]>();
@@ -229,107 +230,100 @@ export function registerHyperflowNodes(engine: {
 
     ctx.log(`🔄 Hyperflow: Starting pipeline execution`);
 
-    try {
-      // Create AI client if configured
-      let aiClient: { chat: (prompt: string) => Promise<string> } | undefined;
+    // Create AI client if configured
+    let aiClient: { chat: (prompt: string) => Promise<string> } | undefined;
+    
+    if (aiConfig?.apiKey) {
+      const { generateText } = await import('ai');
+      const providerType = aiConfig.provider || 'openai-compatible';
+      
+      ctx.log(`🤖 AI Provider: ${providerType}, Model: ${aiConfig.model || 'default'}`);
       
-      if (aiConfig?.apiKey) {
-        const { generateText } = await import('ai');
-        const providerType = aiConfig.provider || 'openai-compatible';
-        
-        ctx.log(`🤖 AI Provider: ${providerType}, Model: ${aiConfig.model || 'default'}`);
-        
-        aiClient = {
-          async chat(prompt: string) {
-            let result: { text: string };
-            
-            switch (providerType) {
-              case 'deepseek': {
-                const { createDeepSeek } = await import('@ai-sdk/deepseek');
-                const deepseek = createDeepSeek({ apiKey: aiConfig.apiKey });
-                result = await generateText({
-                  model: deepseek(aiConfig.model || 'deepseek-chat'),
-                  prompt,
-                });
-                break;
-              }
-              case 'openrouter': {
-                const { createOpenRouter } = await import('@openrouter/ai-sdk-provider');
-                const openrouter = createOpenRouter({ apiKey: aiConfig.apiKey });
-                result = await generateText({
-                  model: openrouter.chat(aiConfig.model || 'openai/gpt-3.5-turbo'),
-                  prompt,
-                });
-                break;
-              }
-              case 'zhipu': {
-                const { createZhipu } = await import('zhipu-ai-provider');
-                const zhipu = createZhipu({ 
-                  apiKey: aiConfig.apiKey,
-                  baseURL: aiConfig.baseUrl 
-                });
-                result = await generateText({
-                  model: zhipu(aiConfig.model || 'glm-4') as any,
-                  prompt,
-                });
-                break;
-              }
-              case 'openai-compatible':
-              default: {
-                const { createOpenAICompatible } = await import('@ai-sdk/openai-compatible');
-                const provider = createOpenAICompatible({
-                  name: aiConfig.name || 'hyperflow-ai',
-                  apiKey: aiConfig.apiKey,
-                  baseURL: aiConfig.baseUrl,
-                });
-                result = await generateText({
-                  model: provider(aiConfig.model || 'gpt-3.5-turbo'),
-                  prompt,
-                });
-                break;
-              }
+      aiClient = {
+        async chat(prompt: string) {
+          let result: { text: string };
+          
+          switch (providerType) {
+            case 'deepseek': {
+              const { createDeepSeek } = await import('@ai-sdk/deepseek');
+              const deepseek = createDeepSeek({ apiKey: aiConfig.apiKey });
+              result = await generateText({
+                model: deepseek(aiConfig.model || 'deepseek-chat'),
+                prompt,
+                abortSignal: ctx.signal,
+              });
+              break;
+            }
+            case 'openrouter': {
+              const { createOpenRouter } = await import('@openrouter/ai-sdk-provider');
+              const openrouter = createOpenRouter({ apiKey: aiConfig.apiKey });
+              result = await generateText({
+                model: openrouter.chat(aiConfig.model || 'openai/gpt-3.5-turbo'),
+                prompt,
+                abortSignal: ctx.signal,
+              });
+              break;
+            }
+            case 'zhipu': {
+              const { createZhipu } = await import('zhipu-ai-provider');
+              const zhipu = createZhipu({ 
+                apiKey: aiConfig.apiKey,
+                baseURL: aiConfig.baseUrl 
+              });
+              result = await generateText({
+                model: zhipu(aiConfig.model || 'glm-4') as any,
+                prompt,
+                abortSignal: ctx.signal,
+              });
+              break;
+            }
+            case 'openai-compatible':
+            default: {
+              const { createOpenAICompatible } = await import('@ai-sdk/openai-compatible');
+              const provider = createOpenAICompatible({
+                name: aiConfig.name || 'hyperflow-ai',
+                apiKey: aiConfig.apiKey,
+                baseURL: aiConfig.baseUrl,
+              });
+              result = await generateText({
+                model: provider(aiConfig.model || 'gpt-3.5-turbo'),
+                prompt,
+                abortSignal: ctx.signal,
+              });
+              break;
             }
-            
-            return result.text;
           }
-        };
-      }
-
-      // Create hyperflow instance with input payload
-      const hyper = createHyperflow(aiClient);
-      
-      // Set initial state from input message
-      hyper.state('input', msg.payload);
-      hyper.state('metadata', msg.metadata || {});
-
-      // Execute user-defined pipeline code
-      const pipelineFunc = new Function(
-        'hyper', 
-        'Signal', 
-        'input',
-        `
-        ${code}
-        return hyper;
-        `
-      );
-      
-      const configuredHyper = pipelineFunc(hyper, Signal, msg.payload);
-      
-      // Run the pipeline
-      const result = await configuredHyper.run();
-      
-      ctx.log(`✓ Hyperflow: Pipeline completed`);
-      ctx.log(`   Output keys: ${Object.keys(result).join(', ')}`);
-      
-      ctx.send({
-        payload: result,
-        metadata: { ...msg.metadata, hyperflow: true }
-      });
-      
-    } catch (error) {
-      ctx.error('Hyperflow execution failed', error as Error);
-      ctx.send({ ...msg, error: (error as Error).message });
+          
+          return result.text;
+        }
+      };
     }
+
+    // Create a hyperflow instance with the input as state, then let the
+    // user-defined pipeline code configure and run it
+    const result = await runUserCode(ctx, {
+      code: `
+        const hyper = createHyperflow(aiChat ? { chat: aiChat } : undefined);
+        hyper.state('input', input);
+        hyper.state('metadata', metadata);
+        const configured = await (async (hyper, Signal, input) => {
+          ${code}
+          return hyper;
+        })(hyper, Signal, input);
+        return configured.run();
+      `,
+      args: { input: msg.payload, metadata: msg.metadata || {} },
+      host: { aiChat: aiClient && ((prompt: string) => aiClient!.chat(prompt)) },
+      hyperflow: true
+    });
+    
+    ctx.log(`✓ Hyperflow: Pipeline completed`);
+    ctx.log(`   Output keys: ${Object.keys(result).join(', ')}`);
+    
+    ctx.send({
+      payload: result,
+      metadata: { ...msg.metadata, hyperflow: true }
+    });
   });
 
   // HYPERFLOW-STEP NODE - Single step in a Hyperflow pipeline
@@ -341,17 +335,10 @@ export function registerHyperflowNodes(engine: {
 
     ctx.log(`🔹 Hyperflow Step: ${stepName}`);
 
-    try {
-      const func = new Function('msg', 'Signal', code);
-      const result = await func(msg, Signal);
-      
-      ctx.log(`   ✓ Step completed`);
-      ctx.send(result || msg);
-      
-    } catch (error) {
-      ctx.error(`Step "${stepName}" failed`, error as Error);
-      ctx.send({ ...msg, error: (error as Error).message });
-    }
+    const result = await runUserCode(ctx, { code, args: { msg }, hyperflow: true });
+    
+    ctx.log(`   ✓ Step completed`);
+    ctx.send(result || msg);
   });
 
   // HYPERFLOW-DAG NODE - Execute parallel DAG nodes
@@ -363,56 +350,41 @@ export function registerHyperflowNodes(engine: {
 
     ctx.log(`🔀 Hyperflow DAG: ${dagName}`);
 
+    // Parse node definitions
+    let nodeConfigs: Array<{ id: string; deps: string[]; code: string }>;
     try {
-      // Parse node definitions
-      let nodeConfigs: Array<{ id: string; deps: string[]; code: string }>;
-      try {
-        nodeConfigs = JSON.parse(nodes);
-      } catch {
-        ctx.error('Invalid DAG nodes JSON');
-        return;
-      }
-
-      // Build context from input
-      const hyperCtx: HyperflowContext = {
-        input: new Signal(msg.payload),
-        metadata: new Signal(msg.metadata || {})
-      };
-
-      const helpers: HyperflowHelpers = {
-        async callTool() { throw new Error('Tools not available in DAG node'); },
-        async aiChat() { throw new Error('AI not available in DAG node'); }
-      };
-
-      // Convert to DAG nodes
-      const dagNodes: DagNode[] = nodeConfigs.map(nc => ({
-        id: nc.id,
-        deps: nc.deps || [],
-        run: async (ctx: HyperflowContext) => {
-          const func = new Function('ctx', 'Signal', nc.code);
-          await func(ctx, Signal);
-        }
-      }));
-
-      ctx.log(`   Executing ${dagNodes.length} nodes in parallel where possible`);
-      
-      await runDag(dagNodes, hyperCtx, helpers);
-
-      // Unwrap signals for output
-      const result = Object.fromEntries(
-        Object.entries(hyperCtx).map(([k, v]) => [k, v.value])
-      );
+      nodeConfigs = JSON.parse(nodes);
+    } catch {
+      throw new Error('Invalid DAG nodes JSON');
+    }
 
-      ctx.log(`   ✓ DAG completed`);
-      ctx.send({
-        payload: result,
-        metadata: { ...msg.metadata, dag: dagName }
-      });
+    ctx.log(`   Executing ${nodeConfigs.length} nodes in parallel where possible`);
 
-    } catch (error) {
-      ctx.error(`DAG "${dagName}" failed`, error as Error);
-      ctx.send({ ...msg, error: (error as Error).message });
-    }
+    const result = await runUserCode(ctx, {
+      code: `
+        const hyperCtx = { input: new Signal(input), metadata: new Signal(metadata) };
+        const helpers = {
+          async callTool() { throw new Error('Tools not available in DAG node'); },
+          async aiChat() { throw new Error('AI not available in DAG node'); }
+        };
+        const dagNodes = nodes.map(nc => ({
+          id: nc.id,
+          deps: nc.deps || [],
+          run: async (ctx) => { await new Function('ctx', 'Signal', nc.code)(ctx, Signal); }
+        }));
+        await runDag(dagNodes, hyperCtx, helpers);
+        // Unwrap signals for output
+        return Object.fromEntries(Object.entries(hyperCtx).map(([k, v]) => [k, v.value]));
+      `,
+      args: { input: msg.payload, metadata: msg.metadata || {}, nodes: nodeConfigs },
+      hyperflow: true
+    });
+
+    ctx.log(`   ✓ DAG completed`);
+    ctx.send({
+      payload: result,
+      metadata: { ...msg.metadata, dag: dagName }
+    });
   });
 
   // HYPERFLOW-TOOL NODE - Register and call tools
@@ -425,28 +397,21 @@ export function registerHyperflowNodes(engine: {
 
     ctx.log(`🔧 Hyperflow Tool: ${toolName}`);
 
-    try {
-      // Get input from message path
-      const keys = inputPath.split('.');
-      let input: any = msg;
-      for (const key of keys) {
-        input = input?.[key];
-      }
+    // Get input from message path
+    const keys = inputPath.split('.');
+    let input: any = msg;
+    for (const key of keys) {
+      input = input?.[key];
+    }
 
-      // Execute tool
-      const func = new Function('input', 'msg', toolCode);
-      const result = await Promise.resolve(func(input, msg));
+    // Execute tool
+    const result = await runUserCode(ctx, { code: toolCode, args: { input, msg } });
 
-      ctx.log(`   ✓ Tool executed`);
-      ctx.send({
-        payload: { ...msg.payload, [toolName]: result },
-        metadata: msg.metadata
-      });
-
-    } catch (error) {
-      ctx.error(`Tool "${toolName}" failed`, error as Error);
-      ctx.send({ ...msg, error: (error as Error).message });
-    }
+    ctx.log(`   ✓ Tool executed`);
+    ctx.send({
+      payload: { ...msg.payload, [toolName]: result },
+      metadata: msg.metadata
+    });
   });
 }
 
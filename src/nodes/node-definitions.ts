@@ -1,4 +1,21 @@
-import type { NodeTypeDefinition } from "../types/index.ts";
+import type { NodeTypeDefinition, SwitchRule } from "../types/index.ts";
+
+export const DEFAULT_SWITCH_RULES = `[
+  { "type": "eq", "value": "on" },
+  { "type": "range", "min": 0, "max": 10 },
+  { "type": "else" }
+]`;
+
+// Rules of a switch node; stored as a JSON string when edited in the UI
+export function parseSwitchRules(rules: unknown = DEFAULT_SWITCH_RULES): SwitchRule[] {
+  if (Array.isArray(rules)) return rules;
+  try {
+    const parsed = JSON.parse(String(rules));
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
 
 export const nodeDefinitions: NodeTypeDefinition[] = [
   // Input nodes
@@ -36,7 +53,22 @@ export const nodeDefinitions: NodeTypeDefinition[] = [
     description: 'Create REST endpoints',
     configFields: [
       { name: 'method', label: 'Method', type: 'select', options: ['GET', 'POST', 'PUT', 'DELETE'], default: 'POST' },
-      { name: 'path', label: 'Path', type: 'string', default: '/webhook' }
+      { name: 'path', label: 'Path (e.g. /users/:id, /files/*)', type: 'string', default: '/webhook' },
+      { name: 'maxBodySize', label: 'Max Body Size (bytes)', type: 'number', default: 1048576 },
+      { name: 'respond', label: 'Respond', type: 'select', options: ['immediately', 'http-response', 'sse'], default: 'immediately' },
+      { name: 'timeout', label: 'Response Timeout (ms)', type: 'number', default: 30000, showWhen: { field: 'respond', value: 'http-response' } },
+      { name: 'auth', label: 'Authentication', type: 'select', options: ['none', 'api-key', 'basic', 'bearer', 'hmac'], default: 'none' },
+      { name: 'apiKeyHeader', label: 'API Key Header', type: 'string', default: 'X-API-Key', showWhen: { field: 'auth', value: 'api-key' } },
+      { name: 'apiKey', label: 'API Key', type: 'string', default: '', showWhen: { field: 'auth', value: 'api-key' } },
+      { name: 'username', label: 'Username', type: 'string', default: '', showWhen: { field: 'auth', value: 'basic' } },
+      { name: 'password', label: 'Password', type: 'string', default: '', showWhen: { field: 'auth', value: 'basic' } },
+      { name: 'hmacScheme', label: 'Signature Format', type: 'select', options: ['github', 'stripe', 'hex', 'base64'], default: 'github', showWhen: { field: 'auth', value: 'hmac' } },
+      { name: 'hmacSecret', label: 'Signing Secret', type: 'string', default: '', showWhen: { field: 'auth', value: 'hmac' } },
+      { name: 'hmacAlgorithm', label: 'Algorithm (github, hex, base64)', type: 'select', options: ['sha256', 'sha1', 'sha512'], default: 'sha256', showWhen: { field: 'auth', value: 'hmac' } },
+      { name: 'hmacHeader', label: 'Signature Header (empty = format default)', type: 'string', default: '', showWhen: { field: 'auth', value: 'hmac' } },
+      { name: 'corsOrigins', label: 'CORS Origins (comma separated, * = any, empty = off)', type: 'string', default: '' },
+      { name: 'corsHeaders', label: 'CORS Allowed Headers (empty = as requested)', type: 'string', default: '' },
+      { name: 'corsCredentials', label: 'CORS Credentials', type: 'boolean', default: false }
     ]
   },
   {
@@ -53,6 +85,22 @@ export const nodeDefinitions: NodeTypeDefinition[] = [
       { name: 'topic', label: 'Topic', type: 'string', default: 'test/#' }
     ]
   },
+  {
+    type: 'sse-in',
+    label: 'SSE In',
+    category: 'input',
+    color: '#22c55e',
+    inputs: 0,
+    outputs: 1,
+    icon: '📡',
+    description: 'Consume a Server-Sent Events stream',
+    configFields: [
+      { name: 'url', label: 'URL', type: 'string', default: '', required: true },
+      { name: 'headers', label: 'Headers (JSON)', type: 'code', language: 'json', default: '{}' },
+      { name: 'event', label: 'Event Name (empty = all)', type: 'string', default: '' },
+      { name: 'reconnectDelay', label: 'Reconnect Delay (ms)', type: 'number', default: 3000 }
+    ]
+  },
   {
     type: 'websocket-in',
     label: 'WebSocket In',
@@ -90,9 +138,25 @@ export const nodeDefinitions: NodeTypeDefinition[] = [
     inputs: 1,
     outputs: 0,
     icon: '📤',
-    description: 'Send HTTP response',
+    description: 'Answer the request of an HTTP In node set to respond with http-response',
+    configFields: [
+      { name: 'statusCode', label: 'Status Code', type: 'number', default: 200 },
+      { name: 'bodyType', label: 'Body', type: 'select', options: ['auto', 'json', 'text', 'html', 'binary'], default: 'auto' },
+      { name: 'headers', label: 'Headers (JSON)', type: 'code', language: 'json', default: '{}' }
+    ]
+  },
+  {
+    type: 'sse-out',
+    label: 'SSE Out',
+    category: 'output',
+    color: '#f97316',
+    inputs: 1,
+    outputs: 0,
+    icon: '📡',
+    description: 'Stream messages as Server-Sent Events to the client of an HTTP In node set to respond with sse',
     configFields: [
-      { name: 'statusCode', label: 'Status Code', type: 'number', default: 200 }
+      { name: 'event', label: 'Event Name (empty = metadata.event or message)', type: 'string', default: '' },
+      { name: 'close', label: 'Close Stream After Sending', type: 'boolean', default: false }
     ]
   },
   {
@@ -132,7 +196,7 @@ export const nodeDefinitions: NodeTypeDefinition[] = [
     inputs: 1,
     outputs: 1,
     icon: '⚙️',
-    description: 'Run custom JavaScript code',
+    description: 'Run custom JavaScript code (msg, log, flow, global)',
     configFields: [
       { name: 'code', label: 'Code', type: 'code', language: 'javascript', default: 'return msg;' }
     ]
@@ -150,6 +214,74 @@ export const nodeDefinitions: NodeTypeDefinition[] = [
       { name: 'condition', label: 'Condition', type: 'string', default: 'msg.payload.value > 0' }
     ]
   },
+  {
+    type: 'switch',
+    label: 'Switch',
+    category: 'logic',
+    color: '#3b82f6',
+    inputs: 1,
+    outputs: 3,
+    dynamicOutputs: (config) => Math.max(parseSwitchRules(config.rules).length, 1),
+    icon: '🔀',
+    description: 'Route messages by an ordered list of rules, one output per rule',
+    configFields: [
+      { name: 'property', label: 'Property (e.g. payload.status)', type: 'string', default: 'payload' },
+      { name: 'match', label: 'Match', type: 'select', options: ['first', 'all'], default: 'first' },
+      { name: 'rules', label: 'Rules (eq, regex, range, type, js, else)', type: 'code', language: 'json', default: DEFAULT_SWITCH_RULES }
+    ]
+  },
+  {
+    type: 'catch',
+    label: 'Catch',
+    category: 'logic',
+    color: '#3b82f6',
+    inputs: 0,
+    outputs: 1,
+    icon: '🛟',
+    description: 'Receive errors thrown by nodes without an error output',
+    configFields: [
+      { name: 'scope', label: 'Catch errors from', type: 'select', options: ['all', 'selected'], default: 'all' },
+      { name: 'nodes', label: 'Node IDs or names (comma separated)', type: 'string', default: '', showWhen: { field: 'scope', value: 'selected' } }
+    ]
+  },
+  {
+    type: 'subflow',
+    label: 'Subflow',
+    category: 'logic',
+    color: '#3b82f6',
+    inputs: 1,
+    outputs: 1,
+    // One output per subflow-out port of the referenced workflow
+    dynamicOutputs: (config) => Math.max(Number(config.outputs) || 1, 1),
+    icon: '📦',
+    description: 'Run another workflow; double-click to edit it',
+    configFields: [
+      { name: 'workflowId', label: 'Workflow', type: 'workflow', default: '', required: true }
+    ]
+  },
+  {
+    type: 'subflow-in',
+    label: 'Subflow In',
+    category: 'input',
+    color: '#22c55e',
+    inputs: 0,
+    outputs: 1,
+    icon: '📥',
+    description: 'Where messages enter when this workflow runs as a subflow'
+  },
+  {
+    type: 'subflow-out',
+    label: 'Subflow Out',
+    category: 'output',
+    color: '#f97316',
+    inputs: 1,
+    outputs: 0,
+    icon: '📤',
+    description: 'Leave the subflow on the given output port',
+    configFields: [
+      { name: 'port', label: 'Output port', type: 'number', default: 1 }
+    ]
+  },
   {
     type: 'transform',
     label: 'Transform',
@@ -187,11 +319,25 @@ export const nodeDefinitions: NodeTypeDefinition[] = [
     color: '#8b5cf6',
     inputs: 1,
     outputs: 1,
+    // Non-2xx responses get their own output when splitErrors is on
+    dynamicOutputs: (config) => config.splitErrors ? 2 : 1,
     icon: '🔗',
     description: 'Make API calls (most used)',
     configFields: [
-      { name: 'method', label: 'Method', type: 'select', options: ['GET', 'POST', 'PUT', 'DELETE'], default: 'GET' },
-      { name: 'url', label: 'URL', type: 'string', default: 'https://api.example.com' }
+      { name: 'method', label: 'Method', type: 'select', options: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'], default: 'GET' },
+      { name: 'url', label: 'URL (e.g. https://api.example.com/items/{{payload.id}})', type: 'string', default: '', required: true },
+      { name: 'query', label: 'Query (JSON, values may use {{...}})', type: 'code', language: 'json', default: '{}' },
+      { name: 'headers', label: 'Headers (JSON, values may use {{...}})', type: 'code', language: 'json', default: '{}' },
+      { name: 'bodyMode', label: 'Body', type: 'select', options: ['json', 'form', 'text', 'binary', 'none'], default: 'json' },
+      { name: 'authType', label: 'Authentication', type: 'select', options: ['none', 'basic', 'bearer'], default: 'none' },
+      { name: 'username', label: 'Username', type: 'string', default: '', showWhen: { field: 'authType', value: 'basic' } },
+      { name: 'password', label: 'Password', type: 'string', default: '', showWhen: { field: 'authType', value: 'basic' } },
+      { name: 'token', label: 'Bearer Token', type: 'string', default: '', showWhen: { field: 'authType', value: 'bearer' } },
+      { name: 'responseType', label: 'Response', type: 'select', options: ['auto', 'json', 'text', 'binary'], default: 'auto' },
+      { name: 'timeout', label: 'Request Timeout (ms, 0 = none)', type: 'number', default: 0 },
+      { name: 'followRedirects', label: 'Follow Redirects', type: 'boolean', default: true },
+      { name: 'verifyTls', label: 'Verify TLS Certificates', type: 'boolean', default: true },
+      { name: 'splitErrors', label: 'Send Non-2xx Responses to Output 2', type: 'boolean', default: false }
     ]
   },
   {
@@ -207,6 +353,24 @@ export const nodeDefinitions: NodeTypeDefinition[] = [
       { name: 'delay', label: 'Delay (ms)', type: 'number', default: 1000 }
     ]
   },
+  {
+    type: 'rate-limit',
+    label: 'Rate Limit',
+    category: 'data',
+    color: '#8b5cf6',
+    inputs: 1,
+    outputs: 2,
+    icon: '🚦',
+    description: 'Limit, throttle or debounce messages; dropped messages leave on output 2',
+    configFields: [
+      { name: 'mode', label: 'Mode', type: 'select', options: ['rate', 'throttle', 'debounce'], default: 'rate' },
+      { name: 'rate', label: 'Messages per Interval', type: 'number', default: 1, showWhen: { field: 'mode', value: 'rate' } },
+      { name: 'interval', label: 'Interval (ms)', type: 'number', default: 1000 },
+      { name: 'keyPath', label: 'Limit per Key Path (e.g. metadata.topic, empty = one limit)', type: 'string', default: '' },
+      { name: 'excess', label: 'Excess Messages (rate, throttle)', type: 'select', options: ['queue', 'drop'], default: 'queue' },
+      { name: 'maxQueue', label: 'Max Queued per Key', type: 'number', default: 100, showWhen: { field: 'excess', value: 'queue' } }
+    ]
+  },
   {
     type: 'split',
     label: 'Split',
@@ -215,7 +379,12 @@ export const nodeDefinitions: NodeTypeDefinition[] = [
     inputs: 1,
     outputs: 1,
     icon: '✂️',
-    description: 'Split array into messages'
+    description: 'Split an array, object or string into a sequence of messages',
+    configFields: [
+      { name: 'field', label: 'Field Path (e.g. payload.items)', type: 'string', default: 'payload' },
+      { name: 'chunkSize', label: 'Array Chunk Size', type: 'number', default: 1 },
+      { name: 'delimiter', label: 'String Delimiter', type: 'string', default: '\\n' }
+    ]
   },
   {
     type: 'join',
@@ -225,7 +394,14 @@ export const nodeDefinitions: NodeTypeDefinition[] = [
     inputs: 1,
     outputs: 1,
     icon: '🔗',
-    description: 'Combine messages into array'
+    description: 'Combine a sequence of messages into one',
+    configFields: [
+      { name: 'mode', label: 'Output', type: 'select', options: ['array', 'object', 'keyvalue'], default: 'array' },
+      { name: 'count', label: 'Count (0 = from split/loop metadata)', type: 'number', default: 0 },
+      { name: 'groupBy', label: 'Group By Path (empty = split id, else all runs with a count, else run)', type: 'string', default: '' },
+      { name: 'keyPath', label: 'Key Path', type: 'string', default: 'metadata.parts.key', showWhen: { field: 'mode', value: 'keyvalue' } },
+      { name: 'timeout', label: 'Timeout (ms, 0 = none)', type: 'number', default: 5000 }
+    ]
   },
   {
     type: 'loop',
@@ -267,15 +443,19 @@ export const nodeDefinitions: NodeTypeDefinition[] = [
     outputs: 1,
     icon: '🤖',
     description: 'Generate text with AI (OpenAI compatible)',
+    // Streamed chunks get their own output
+    dynamicOutputs: (config) => config.stream ? 2 : 1,
     configFields: [
-      { name: 'aiConfig', label: 'AI Configuration', type: 'ai-config', default: '' },
+      { name: 'aiConfig', label: 'AI Configuration', type: 'ai-config', default: '', required: true },
       { name: 'prompt', label: 'Prompt', type: 'code', language: 'text', default: '{{payload.prompt}}' },
       { name: 'systemPrompt', label: 'System Prompt', type: 'code', language: 'text', default: '' },
       { name: 'temperature', label: 'Temperature', type: 'number', default: 0.7 },
       { name: 'maxTokens', label: 'Max Tokens', type: 'number', default: 1000 },
       { name: 'memory', label: 'Memory (JSON)', type: 'code', language: 'json', default: '[]' },
       { name: 'tools', label: 'Tools (JSON)', type: 'code', language: 'json', default: '[]' },
-      { name: 'outputParser', label: 'Output Parser', type: 'select', options: ['none', 'json', 'markdown'], default: 'none' }
+      { name: 'maxSteps', label: 'Max Tool Steps', type: 'number', default: 5 },
+      { name: 'outputParser', label: 'Output Parser', type: 'select', options: ['none', 'json', 'markdown'], default: 'none' },
+      { name: 'stream', label: 'Stream Chunks to Output 2', type: 'boolean', default: false }
     ]
   },
 
@@ -491,3 +671,10 @@ return {
 ];
 
 export const nodeDefinitionMap = new Map(nodeDefinitions.map(n => [n.type, n]));
+
+// Number of outputs a node has with the given config
+export function getOutputCount(type: string, config: Record<string, any> = {}): number {
+  const def = nodeDefinitionMap.get(type);
+  if (!def) return 0;
+  return def.dynamicOutputs ? def.dynamicOutputs(config) : def.outputs;
+}
@@ -1,20 +1,125 @@
-import type { WorkflowMessage, NodeExecutionContext, NodeExecutor, RuntimeService } from "../types/index.ts";
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { WorkflowMessage, NodeExecutionContext, NodeExecutor, RuntimeService, User } from "../types/index.ts";
 
-type MessageHandler = (msg: WorkflowMessage) => void;
+// Returns false when the message was turned away (see NodeExecutionContext.send)
+type MessageHandler = (msg: WorkflowMessage) => boolean | void;
+
+// How an http-in route answers: right away, with what an http-response
+// node sends for the request within `timeout` ms, or with an SSE stream
+// that sse-out nodes write to until one of them closes it
+export interface HttpRouteOptions {
+  waitForResponse?: boolean;
+  timeout?: number;
+  stream?: boolean;
+  maxBodySize?: number; // Bytes; larger requests get a 413
+  auth?: HttpAuth; // Open to anyone when unset
+  cors?: HttpCors;
+}
+
+// Credentials a route requires; requests without them get a 401
+export type HttpAuth =
+  | { type: 'api-key'; header: string; key: string }
+  | { type: 'basic'; username: string; password: string }
+  | { type: 'bearer' } // Session token of an editor user (see HttpInServiceOptions.validateToken)
+  | { type: 'hmac'; scheme: 'github' | 'stripe' | 'hex' | 'base64'; secret: string; header?: string; algorithm?: string };
+
+// Browser origins allowed to call a route; '*' allows any
+export interface HttpCors {
+  origins: string[];
+  headers?: string[]; // Request headers allowed in preflights; defaults to the ones asked for
+  credentials?: boolean;
+  maxAge?: number; // Seconds browsers may cache a preflight
+}
+
+// One Server-Sent Event; multi-line data is sent as several data: lines
+export interface SseEvent {
+  data: string;
+  event?: string;
+  id?: string;
+  retry?: number; // Reconnect delay the client should use, in ms
+}
+
+export interface HttpInServiceOptions {
+  validateToken?: (token: string) => Promise<User | null>; // Needed by bearer routes
+}
+
+interface HttpRoute {
+  method: string;
+  path: string;
+  pattern: RegExp;
+  paramNames: string[]; // `:name` segments, and '0', '1'... for wildcards
+  specificity: number[];
+  handler: MessageHandler;
+  options: HttpRouteOptions;
+}
+
+// Failure answered with a status code instead of running the flow
+class HttpError extends Error {
+  constructor(readonly status: number, message: string, readonly headers?: Record<string, string>) {
+    super(message);
+  }
+}
+
+const DEFAULT_HTTP_RESPONSE_TIMEOUT_MS = 30000;
+const DEFAULT_MAX_BODY_SIZE = 1024 * 1024;
+// Comment lines sent on idle SSE streams so proxies don't close them
+const SSE_KEEP_ALIVE_MS = 15000;
+// SSE In reconnect delay, and the floor that stops a server which drops every
+// connection from causing a tight reconnect loop
+const DEFAULT_SSE_RECONNECT_MS = 3000;
+const MIN_SSE_RECONNECT_MS = 100;
+const encoder = new TextEncoder();
+// Age of a Stripe signature timestamp beyond which the request is refused
+const STRIPE_TOLERANCE_SECONDS = 300;
 
 // HTTP Input Server - always-on runtime service
 export class HttpInService implements RuntimeService {
   private server: any = null;
-  private routes: Map<string, MessageHandler> = new Map();
+  private routes: Map<string, HttpRoute> = new Map();
+  // Requests waiting for an http-response node, keyed by metadata.httpRequestId
+  private pending: Map<string, (response: Response) => void> = new Map();
+  // Open SSE streams, keyed by metadata.httpRequestId
+  private streams: Map<string, { controller: ReadableStreamDefaultController<Uint8Array>; keepAlive: ReturnType<typeof setInterval> }> = new Map();
   private port: number;
 
-  constructor(port: number = 3001) {
+  constructor(port: number = 3001, private options: HttpInServiceOptions = {}) {
     this.port = port;
   }
 
-  registerRoute(path: string, method: string, handler: MessageHandler) {
+  // `path` may contain `:name` segments and `*` wildcards (e.g. /users/:id,
+  // /files/*); their values end up in msg.metadata.params
+  registerRoute(path: string, method: string, handler: MessageHandler, options: HttpRouteOptions = {}) {
     const key = `${method.toUpperCase()}:${path}`;
-    this.routes.set(key, handler);
+    this.routes.set(key, { method: method.toUpperCase(), path, ...compileRoutePath(path), handler, options });
+  }
+
+  // Answer a waiting request; false when it was already answered, timed out
+  // or never waited
+  respond(requestId: string, response: Response): boolean {
+    const resolve = this.pending.get(requestId);
+    if (!resolve) return false;
+    this.pending.delete(requestId);
+    resolve(response);
+    return true;
+  }
+
+  // Write an event to an open SSE stream; false when the client went away or
+  // the request isn't a stream
+  sendEvent(requestId: string, event: SseEvent): boolean {
+    return this.write(requestId, sseFrame(event));
+  }
+
+  // End an SSE stream; false when it was already closed
+  closeStream(requestId: string): boolean {
+    const stream = this.streams.get(requestId);
+    if (!stream) return false;
+    this.forgetStream(requestId);
+    try {
+      stream.controller.close();
+    } catch {
+      // The client disconnected in the meantime
+    }
+    return true;
   }
 
   unregisterRoute(path: string, method: string) {
@@ -28,37 +133,7 @@ export class HttpInService implements RuntimeService {
     try {
       this.server = Bun.serve({
         port: this.port,
-        fetch: async (req) => {
-          const url = new URL(req.url);
-          const key = `${req.method}:${url.pathname}`;
-          const handler = this.routes.get(key);
-
-          if (handler) {
-            let body = {};
-            if (req.method !== 'GET') {
-              try {
-                body = await req.json() as Record<string, unknown>;
-              } catch { body = {}; }
-            }
-
-            const msg: WorkflowMessage = {
-              payload: body,
-              metadata: {
-                method: req.method,
-                path: url.pathname,
-                query: Object.fromEntries(url.searchParams),
-                headers: Object.fromEntries(req.headers)
-              }
-            };
-
-            handler(msg);
-            return new Response(JSON.stringify({ status: 'ok' }), {
-              headers: { 'Content-Type': 'application/json' }
-            });
-          }
-
-          return new Response('Not Found', { status: 404 });
-        }
+        fetch: (req) => this.handle(req)
       });
 
       console.log(`🌐 HTTP Input server running on port ${this.port}`);
@@ -74,6 +149,12 @@ export class HttpInService implements RuntimeService {
 
   async stop(): Promise<void> {
     if (this.server) {
+      for (const requestId of [...this.pending.keys()]) {
+        this.respond(requestId, new Response('Service Unavailable', { status: 503 }));
+      }
+      for (const requestId of [...this.streams.keys()]) {
+        this.closeStream(requestId);
+      }
       this.server.stop();
       this.server = null;
       console.log('🌐 HTTP Input server stopped');
@@ -83,6 +164,404 @@ export class HttpInService implements RuntimeService {
   isRunning(): boolean {
     return this.server !== null;
   }
+
+  private async handle(req: Request): Promise<Response> {
+    const url = new URL(req.url);
+    const origin = req.headers.get('origin');
+
+    // CORS preflight for the route the browser is about to call
+    const preflightMethod = req.method === 'OPTIONS' ? req.headers.get('access-control-request-method') : null;
+    if (preflightMethod) {
+      const cors = this.match(preflightMethod.toUpperCase(), url.pathname)?.route.options.cors;
+      const allowed = cors && corsHeaders(cors, origin);
+      if (!allowed) return new Response('Not Found', { status: 404 });
+      return new Response(null, {
+        status: 204,
+        headers: {
+          ...allowed,
+          'Access-Control-Allow-Methods': preflightMethod.toUpperCase(),
+          'Access-Control-Allow-Headers': cors.headers?.join(', ') ?? req.headers.get('access-control-request-headers') ?? '',
+          'Access-Control-Max-Age': String(cors.maxAge ?? 600)
+        }
+      });
+    }
+
+    const match = this.match(req.method, url.pathname);
+    if (!match) {
+      return new Response('Not Found', { status: 404 });
+    }
+
+    const response = await this.handleRoute(req, url, match.route, match.params).catch(err => {
+      if (!(err instanceof HttpError)) throw err;
+      return Response.json({ error: err.message }, { status: err.status, headers: err.headers });
+    });
+
+    const allowed = match.route.options.cors && corsHeaders(match.route.options.cors, origin);
+    for (const [name, value] of Object.entries(allowed || {})) {
+      response.headers.set(name, value);
+    }
+    return response;
+  }
+
+  private async handleRoute(req: Request, url: URL, route: HttpRoute, params: Record<string, string>): Promise<Response> {
+    const { auth } = route.options;
+    const user = auth ? await this.authenticate(req, auth) : undefined;
+
+    const bytes = await readBody(req, route.options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE);
+    if (auth?.type === 'hmac' && !verifySignature(auth, req.headers, bytes)) {
+      throw new HttpError(401, 'Invalid signature');
+    }
+    const payload = await parseBody(bytes, req.headers.get('content-type') ?? '');
+
+    // Credentials don't travel on with the message (logs, execution history)
+    const headers = Object.fromEntries(req.headers);
+    if (auth?.type === 'basic' || auth?.type === 'bearer') delete headers.authorization;
+    if (auth?.type === 'api-key') delete headers[auth.header.toLowerCase()];
+
+    const requestId = crypto.randomUUID();
+    const msg: WorkflowMessage = {
+      payload,
+      metadata: {
+        method: req.method,
+        path: url.pathname,
+        params,
+        query: Object.fromEntries(url.searchParams),
+        headers,
+        httpRequestId: requestId,
+        ...(user && { user })
+      }
+    };
+
+    if (route.options.stream) {
+      return this.openStream(req, requestId, route, msg);
+    }
+
+    if (!route.options.waitForResponse) {
+      accept(route, msg);
+      return new Response(JSON.stringify({ status: 'ok' }), {
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const timeout = route.options.timeout || DEFAULT_HTTP_RESPONSE_TIMEOUT_MS;
+    const response = new Promise<Response>(resolve => this.pending.set(requestId, resolve));
+    const timer = setTimeout(() => {
+      this.respond(requestId, new Response(JSON.stringify({ error: `No response within ${timeout}ms` }), {
+        status: 504,
+        headers: { 'Content-Type': 'application/json' }
+      }));
+    }, timeout);
+
+    try {
+      accept(route, msg);
+      return await response;
+    } finally {
+      clearTimeout(timer);
+      this.pending.delete(requestId);
+    }
+  }
+
+  // Answer with an event stream that stays open until an sse-out node closes
+  // it, the client disconnects or the service stops
+  private openStream(req: Request, requestId: string, route: HttpRoute, msg: WorkflowMessage): Response {
+    const body = new ReadableStream<Uint8Array>({
+      start: controller => {
+        const keepAlive = setInterval(() => this.write(requestId, ': keep-alive\n\n'), SSE_KEEP_ALIVE_MS);
+        this.streams.set(requestId, { controller, keepAlive });
+      },
+      cancel: () => this.forgetStream(requestId)
+    });
+    req.signal.addEventListener('abort', () => this.forgetStream(requestId), { once: true });
+    // Bun closes connections idle for 10s by default
+    this.server?.timeout?.(req, 0);
+
+    try {
+      accept(route, msg);
+    } catch (err) {
+      this.forgetStream(requestId);
+      throw err;
+    }
+    return new Response(body, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+      }
+    });
+  }
+
+  private write(requestId: string, chunk: string): boolean {
+    const stream = this.streams.get(requestId);
+    if (!stream) return false;
+    try {
+      stream.controller.enqueue(encoder.encode(chunk));
+      return true;
+    } catch {
+      this.forgetStream(requestId);
+      return false;
+    }
+  }
+
+  private forgetStream(requestId: string) {
+    const stream = this.streams.get(requestId);
+    if (!stream) return;
+    clearInterval(stream.keepAlive);
+    this.streams.delete(requestId);
+  }
+
+  // Check the credentials of a request; resolves with the user they belong
+  // to, if any. HMAC signatures cover the body and are checked once it is read.
+  private async authenticate(req: Request, auth: HttpAuth): Promise<Record<string, any> | undefined> {
+    const authorization = req.headers.get('authorization') ?? '';
+    switch (auth.type) {
+      case 'api-key':
+        if (!safeEqual(req.headers.get(auth.header) ?? '', auth.key)) {
+          throw new HttpError(401, 'Invalid API key');
+        }
+        return undefined;
+      case 'basic': {
+        const [username, ...rest] = Buffer.from(authorization.replace(/^Basic /i, ''), 'base64').toString('utf8').split(':');
+        // Both are compared so a wrong username takes as long as a wrong password
+        const validUsername = safeEqual(username ?? '', auth.username);
+        const validPassword = safeEqual(rest.join(':'), auth.password);
+        if (!/^Basic /i.test(authorization) || !validUsername || !validPassword) {
+          throw new HttpError(401, 'Invalid credentials', { 'WWW-Authenticate': 'Basic realm="NodeFlow"' });
+        }
+        return { username };
+      }
+      case 'bearer': {
+        const token = /^Bearer /i.test(authorization) ? authorization.slice(7) : '';
+        const user = token && this.options.validateToken ? await this.options.validateToken(token) : null;
+        if (!user) {
+          throw new HttpError(401, 'Invalid or expired token', { 'WWW-Authenticate': 'Bearer' });
+        }
+        return { id: user.id, username: user.username, role: user.role };
+      }
+      case 'hmac':
+        return undefined;
+    }
+  }
+
+  // The exact path wins; otherwise the most specific matching pattern
+  private match(method: string, pathname: string): { route: HttpRoute; params: Record<string, string> } | null {
+    const exact = this.routes.get(`${method}:${pathname}`);
+    if (exact) return { route: exact, params: {} };
+
+    let best: { route: HttpRoute; params: Record<string, string> } | null = null;
+    for (const route of this.routes.values()) {
+      if (route.method !== method) continue;
+      const found = route.pattern.exec(pathname);
+      if (!found) continue;
+      if (best && compareSpecificity(route.specificity, best.route.specificity) <= 0) continue;
+      const params = Object.fromEntries(route.paramNames.map((name, i) => [name, decodePathSegment(found[i + 1] ?? '')]));
+      best = { route, params };
+    }
+    return best;
+  }
+}
+
+// Hand a request to the flow; a run the workflow's concurrency limit turns
+// away is answered with a 503
+function accept(route: HttpRoute, msg: WorkflowMessage) {
+  if (route.handler(msg) === false) {
+    throw new HttpError(503, 'Too many requests in progress', { 'Retry-After': '1' });
+  }
+}
+
+// Pattern for a route path. Specificity ranks static segments over `:name`
+// segments over wildcards, segment by segment.
+function compileRoutePath(path: string): Pick<HttpRoute, 'pattern' | 'paramNames' | 'specificity'> {
+  const paramNames: string[] = [];
+  const specificity: number[] = [];
+  let wildcards = 0;
+  const source = path.split('/').map(segment => {
+    if (segment === '*') {
+      paramNames.push(String(wildcards++));
+      specificity.push(0);
+      return '(.*)';
+    }
+    if (segment.startsWith(':')) {
+      paramNames.push(segment.slice(1));
+      specificity.push(1);
+      return '([^/]+)';
+    }
+    specificity.push(2);
+    return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }).join('/');
+  return { pattern: new RegExp(`^${source}/?$`), paramNames, specificity };
+}
+
+// Malformed escapes (e.g. a lone %) are kept as sent
+function decodePathSegment(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function compareSpecificity(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const diff = (a[i] ?? -1) - (b[i] ?? -1);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+// Request body by Content-Type: JSON, urlencoded and multipart forms (files
+// as { filename, contentType, size, data: Buffer }), text, or a Buffer for
+// anything else. Requests without a body get {}.
+async function parseBody(bytes: Buffer, contentType: string): Promise<any> {
+  if (bytes.length === 0) return {};
+
+  const mediaType = contentType.split(';')[0]!.trim().toLowerCase();
+
+  if (mediaType === 'application/json' || mediaType.endsWith('+json') || mediaType === '') {
+    try {
+      return JSON.parse(bytes.toString('utf8'));
+    } catch {
+      // Without a Content-Type the body may be anything
+      if (mediaType === '') return bytes;
+      throw new HttpError(400, 'Invalid JSON body');
+    }
+  }
+  if (mediaType === 'application/x-www-form-urlencoded') {
+    return formFields(new URLSearchParams(bytes.toString('utf8')));
+  }
+  if (mediaType === 'multipart/form-data') {
+    let form: FormData;
+    try {
+      form = await new Response(new Uint8Array(bytes), { headers: { 'Content-Type': contentType } }).formData();
+    } catch {
+      throw new HttpError(400, 'Invalid multipart body');
+    }
+    const entries: Array<[string, any]> = [];
+    for (const [name, value] of form.entries()) {
+      if (typeof value === 'string') {
+        entries.push([name, value]);
+        continue;
+      }
+      const file = value as File;
+      entries.push([name, {
+        filename: file.name,
+        contentType: file.type,
+        size: file.size,
+        data: Buffer.from(await file.arrayBuffer())
+      }]);
+    }
+    return formFields(entries);
+  }
+  if (mediaType.startsWith('text/') || mediaType === 'application/xml') {
+    return bytes.toString('utf8');
+  }
+  return bytes;
+}
+
+// Read the body, stopping as soon as it grows past the limit (the
+// Content-Length header can be missing or wrong)
+async function readBody(req: Request, maxBodySize: number): Promise<Buffer> {
+  if (Number(req.headers.get('content-length')) > maxBodySize) {
+    throw new HttpError(413, `Body exceeds ${maxBodySize} bytes`);
+  }
+  if (!req.body) return Buffer.alloc(0);
+  const reader = req.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > maxBodySize) {
+      await reader.cancel();
+      throw new HttpError(413, `Body exceeds ${maxBodySize} bytes`);
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+// Check the HMAC signature a webhook sender computed over the raw body:
+// 'github' sends "<algorithm>=<hex>", 'stripe' sends "t=<timestamp>,v1=<hex>"
+// over "<timestamp>.<body>", 'hex' and 'base64' send the bare digest
+function verifySignature(auth: Extract<HttpAuth, { type: 'hmac' }>, headers: Headers, body: Buffer): boolean {
+  const algorithm = auth.scheme === 'stripe' ? 'sha256' : auth.algorithm || 'sha256';
+  const header = auth.header || {
+    github: algorithm === 'sha1' ? 'X-Hub-Signature' : 'X-Hub-Signature-256',
+    stripe: 'Stripe-Signature',
+    hex: 'X-Signature',
+    base64: 'X-Signature'
+  }[auth.scheme];
+  const signature = headers.get(header);
+  if (!signature) return false;
+
+  const digest = (data: Buffer) => createHmac(algorithm, auth.secret).update(data);
+  switch (auth.scheme) {
+    case 'github':
+      return safeEqual(signature, `${algorithm}=${digest(body).digest('hex')}`);
+    case 'stripe': {
+      const parts = signature.split(',').map(part => part.split('=') as [string, string]);
+      const timestamp = parts.find(([key]) => key === 't')?.[1];
+      // A timestamp that isn't a number could never be too old, so it is refused
+      if (!timestamp || !Number.isFinite(Number(timestamp))) return false;
+      if (Math.abs(Date.now() / 1000 - Number(timestamp)) > STRIPE_TOLERANCE_SECONDS) return false;
+      const expected = digest(Buffer.concat([Buffer.from(`${timestamp}.`), body])).digest('hex');
+      return parts.some(([key, value]) => key === 'v1' && safeEqual(value ?? '', expected));
+    }
+    case 'hex':
+      return safeEqual(signature.toLowerCase(), digest(body).digest('hex'));
+    case 'base64':
+      return safeEqual(signature, digest(body).digest('base64'));
+  }
+}
+
+// Constant-time comparison, so response times don't reveal how much matched
+function safeEqual(actual: string, expected: string): boolean {
+  const a = Buffer.from(actual);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// CORS response headers for an allowed origin; null when the request has
+// no origin or it is not allowed
+function corsHeaders(cors: HttpCors, origin: string | null): Record<string, string> | null {
+  if (!origin) return null;
+  const any = cors.origins.includes('*');
+  if (!any && !cors.origins.includes(origin)) return null;
+
+  // Credentialed requests need the origin spelled out
+  const headers: Record<string, string> = {
+    'Access-Control-Allow-Origin': any && !cors.credentials ? '*' : origin
+  };
+  if (headers['Access-Control-Allow-Origin'] !== '*') headers['Vary'] = 'Origin';
+  if (cors.credentials) headers['Access-Control-Allow-Credentials'] = 'true';
+  return headers;
+}
+
+// Form fields as an object; repeated names become arrays
+function formFields(entries: Iterable<[string, any]>): Record<string, any> {
+  const fields: Record<string, any> = {};
+  for (const [name, value] of entries) {
+    if (!(name in fields)) {
+      fields[name] = value;
+    } else if (Array.isArray(fields[name])) {
+      fields[name].push(value);
+    } else {
+      fields[name] = [fields[name], value];
+    }
+  }
+  return fields;
+}
+
+function sseFrame({ data, event, id, retry }: SseEvent): string {
+  // A line break in a field would start a new field
+  const field = (value: string) => value.replace(/[\r\n]/g, '');
+  let frame = '';
+  if (event) frame += `event: ${field(event)}\n`;
+  if (id !== undefined) frame += `id: ${field(id)}\n`;
+  if (retry !== undefined) frame += `retry: ${retry}\n`;
+  for (const line of data.split(/\r\n|\r|\n/)) frame += `data: ${line}\n`;
+  return `${frame}\n`;
 }
 
 // MQTT Service - simulated for demo (real impl would use mqtt.js)
@@ -140,10 +619,14 @@ export class MqttService implements RuntimeService {
 }
 
 // Track active subscriptions to prevent duplicates and enable cleanup
-const activeHttpRoutes = new Set<string>();
+// Route key -> options it was registered with, so a redeploy with changed
+// settings registers the route again
+const activeHttpRoutes = new Map<string, string>();
 const activeMqttSubs = new Map<string, { topic: string; handler: MessageHandler; isLocal: boolean }>();
 const activeWsSubs = new Map<string, { topic: string; handler: MessageHandler }>();
 const externalMqttClients = new Map<string, any>();
+const activeSseClients = new Map<string, AbortController>();
+const MQTT_CONNECT_TIMEOUT_MS = 10000;
 
 // Store service references for cleanup
 let _httpService: HttpInService | null = null;
@@ -159,31 +642,120 @@ export function registerRuntimeNodes(
 ) {
   // HTTP IN - receives HTTP requests (listener node - registers handler only)
   engine.registerNodeType('http-in', async (_msg: WorkflowMessage, ctx: NodeExecutionContext) => {
-    const { path = '/webhook', method = 'POST' } = ctx.node.config;
+    const {
+      path = '/webhook',
+      method = 'POST',
+      respond = 'immediately',
+      timeout = DEFAULT_HTTP_RESPONSE_TIMEOUT_MS,
+      maxBodySize = DEFAULT_MAX_BODY_SIZE
+    } = ctx.node.config;
     const routeKey = `${method}:${path}`;
     
-    // Prevent duplicate registrations
-    if (activeHttpRoutes.has(routeKey)) {
+    const options: HttpRouteOptions = {
+      waitForResponse: respond === 'http-response',
+      stream: respond === 'sse',
+      timeout: Number(timeout),
+      maxBodySize: Number(maxBodySize) || DEFAULT_MAX_BODY_SIZE,
+      auth: httpRouteAuth(ctx.node.config),
+      cors: httpRouteCors(ctx.node.config)
+    };
+
+    // Prevent duplicate registrations; changed settings replace the route
+    const signature = JSON.stringify(options);
+    const registered = activeHttpRoutes.get(routeKey);
+    if (registered === signature) {
       ctx.log(`Already listening on ${method} ${path}`);
       return;
     }
-    
-    activeHttpRoutes.add(routeKey);
+
+    activeHttpRoutes.set(routeKey, signature);
     httpService.registerRoute(path, method, (incomingMsg) => {
       ctx.log(`📥 HTTP ${method} ${path}: ${JSON.stringify(incomingMsg.payload)}`);
-      ctx.send(incomingMsg);
-    });
+      return ctx.send(incomingMsg);
+    }, options);
     
-    ctx.log(`✓ Registered listener: ${method} ${path}`);
+    ctx.log(`✓ ${registered ? 'Updated' : 'Registered'} listener: ${method} ${path}`);
     // Don't send downstream - this is a listener setup only
   });
 
-  // HTTP RESPONSE - sends HTTP response
-  engine.registerNodeType('http-response', async (_msg: WorkflowMessage, ctx: NodeExecutionContext) => {
-    const { statusCode = 200 } = ctx.node.config;
+  // HTTP RESPONSE - answers the request the message came from (see http-in)
+  engine.registerNodeType('http-response', async (msg: WorkflowMessage, ctx: NodeExecutionContext) => {
+    const { statusCode = 200, headers = '{}', bodyType = 'auto' } = ctx.node.config;
+    const requestId = msg.metadata?.httpRequestId;
+    if (!requestId) {
+      throw new Error('Message did not come from an http-in request (metadata.httpRequestId is missing)');
+    }
+
+    const extraHeaders = typeof headers === 'string' ? JSON.parse(headers || '{}') : headers;
+    const response = httpResponse(msg.payload, bodyType, Number(statusCode), extraHeaders);
+    if (!httpService.respond(requestId, response)) {
+      throw new Error('HTTP request was already answered, timed out or does not wait for a response');
+    }
     ctx.log(`📤 HTTP Response: ${statusCode}`);
   });
 
+  // SSE OUT - streams the message as an event to the client of an http-in
+  // request opened with respond: sse
+  engine.registerNodeType('sse-out', async (msg: WorkflowMessage, ctx: NodeExecutionContext) => {
+    const { event = '', close = false } = ctx.node.config;
+    const requestId = msg.metadata?.httpRequestId;
+    if (!requestId) {
+      throw new Error('Message did not come from an http-in request (metadata.httpRequestId is missing)');
+    }
+
+    const sent = httpService.sendEvent(requestId, {
+      data: typeof msg.payload === 'string' ? msg.payload : JSON.stringify(msg.payload) ?? '',
+      event: event || msg.metadata?.event || undefined,
+      id: msg.metadata?.eventId === undefined ? undefined : String(msg.metadata.eventId)
+    });
+    if (!sent) {
+      // Clients leave whenever they like (closed tab, dropped connection), so
+      // this is no failure; later events for the request are dropped too
+      ctx.log('⏭️ SSE client disconnected, or the http-in request is not an SSE stream; event dropped');
+      return;
+    }
+    if (close) {
+      httpService.closeStream(requestId);
+      ctx.log('📤 SSE stream closed');
+    }
+  });
+
+  // SSE IN - consumes an external event stream (listener node - connects only)
+  engine.registerNodeType('sse-in', async (_msg: WorkflowMessage, ctx: NodeExecutionContext) => {
+    const { url, headers = '{}', event: eventFilter = '', reconnectDelay = DEFAULT_SSE_RECONNECT_MS } = ctx.node.config;
+    if (!url) {
+      throw new Error('SSE In needs a URL');
+    }
+    const subKey = `${ctx.workflowId}:${ctx.node.id}`;
+
+    // Prevent duplicate connections
+    if (activeSseClients.has(subKey)) {
+      ctx.log(`Already connected to ${url}`);
+      return;
+    }
+
+    const extraHeaders = typeof headers === 'string' ? JSON.parse(headers || '{}') : headers;
+    const controller = new AbortController();
+    activeSseClients.set(subKey, controller);
+
+    // Runs until clearRuntimeSubscriptions aborts it
+    void consumeSse(String(url), extraHeaders, reconnectDelayMs(reconnectDelay), controller.signal, {
+      open: () => ctx.log(`✓ Connected to ${url}`),
+      event: ({ data, event, id }) => {
+        if (eventFilter && event !== eventFilter) return;
+        let payload: any;
+        try {
+          payload = JSON.parse(data);
+        } catch {
+          payload = data;
+        }
+        ctx.log(`📥 SSE [${event}]: ${data}`);
+        ctx.send({ payload, metadata: { event, eventId: id, url, timestamp: Date.now() } });
+      },
+      error: (err) => ctx.error(`SSE error on ${url}`, err)
+    });
+  });
+
   // MQTT IN - subscribes to MQTT topic (listener node - registers handler only)
   engine.registerNodeType('mqtt-in', async (_msg: WorkflowMessage, ctx: NodeExecutionContext) => {
     const { mqttConfig, topic = 'test/#' } = ctx.node.config;
@@ -312,21 +884,35 @@ export function registerRuntimeNodes(
         client = mqtt.connect(brokerUrl, options);
         externalMqttClients.set(clientKey, client);
         
-        await new Promise<void>((resolve) => {
-          client!.on('connect', () => {
+        // Fail instead of waiting forever so the node's retry policy can kick in
+        const connecting = client;
+        await new Promise<void>((resolve, reject) => {
+          const fail = (err: Error) => {
+            clearTimeout(timer);
+            externalMqttClients.delete(clientKey);
+            connecting.end(true);
+            reject(err);
+          };
+          const timer = setTimeout(() => fail(new Error(`Connection to ${brokerUrl} timed out`)), MQTT_CONNECT_TIMEOUT_MS);
+          connecting.once('connect', () => {
+            clearTimeout(timer);
             ctx.log(`✓ Connected to ${brokerUrl}`);
             resolve();
           });
+          connecting.once('error', fail);
         });
       }
       
       const payload = typeof msg.payload === 'string' ? msg.payload : JSON.stringify(msg.payload);
-      client.publish(topic, payload, (err: Error | null) => {
-        if (err) {
-          ctx.error(`Failed to publish: ${err.message}`);
-        } else {
-          ctx.log(`📤 Published to ${topic}: ${payload}`);
-        }
+      await new Promise<void>((resolve, reject) => {
+        client!.publish(topic, payload, (err?: Error) => {
+          if (err) {
+            reject(new Error(`Failed to publish: ${err.message}`));
+          } else {
+            ctx.log(`📤 Published to ${topic}: ${payload}`);
+            resolve();
+          }
+        });
       });
     }
   });
@@ -362,11 +948,171 @@ export function registerRuntimeNodes(
   }
 }
 
+// Auth settings of an http-in node. A mode missing its secret fails the
+// registration rather than leaving the route open.
+function httpRouteAuth(config: Record<string, any>): HttpAuth | undefined {
+  const { auth = 'none', apiKeyHeader = 'X-API-Key', apiKey, username, password, hmacScheme = 'github', hmacSecret, hmacHeader, hmacAlgorithm } = config;
+  switch (auth) {
+    case 'none':
+      return undefined;
+    case 'api-key':
+      if (!apiKey) throw new Error('API key auth needs an API key');
+      return { type: 'api-key', header: apiKeyHeader || 'X-API-Key', key: String(apiKey) };
+    case 'basic':
+      if (!username || !password) throw new Error('Basic auth needs a username and password');
+      return { type: 'basic', username: String(username), password: String(password) };
+    case 'bearer':
+      return { type: 'bearer' };
+    case 'hmac':
+      if (!hmacSecret) throw new Error('HMAC auth needs a secret');
+      return { type: 'hmac', scheme: hmacScheme, secret: String(hmacSecret), header: hmacHeader || undefined, algorithm: hmacAlgorithm || undefined };
+    default:
+      throw new Error(`Unknown auth mode: ${auth}`);
+  }
+}
+
+// CORS settings of an http-in node; off without allowed origins
+function httpRouteCors(config: Record<string, any>): HttpCors | undefined {
+  const list = (value: unknown) => String(value ?? '').split(',').map(item => item.trim()).filter(Boolean);
+  const origins = list(config.corsOrigins);
+  if (origins.length === 0) return undefined;
+  const headers = list(config.corsHeaders);
+  return { origins, headers: headers.length > 0 ? headers : undefined, credentials: config.corsCredentials === true };
+}
+
+// Response with the message payload as body. 'auto' sends bytes as binary,
+// strings as text and anything else as JSON; 'binary' also takes base64 strings.
+function httpResponse(payload: any, bodyType: string, status: number, headers: Record<string, string>): Response {
+  const isBytes = payload instanceof Uint8Array || payload instanceof ArrayBuffer;
+  const type = bodyType !== 'auto' ? bodyType : isBytes ? 'binary' : typeof payload === 'string' ? 'text' : 'json';
+
+  let body: BodyInit | null;
+  let contentType: string;
+  switch (type) {
+    case 'binary':
+      body = isBytes ? payload as BodyInit : Buffer.from(String(payload ?? ''), 'base64');
+      contentType = 'application/octet-stream';
+      break;
+    case 'html':
+      body = String(payload ?? '');
+      contentType = 'text/html; charset=utf-8';
+      break;
+    case 'text':
+      body = typeof payload === 'string' ? payload : JSON.stringify(payload);
+      contentType = 'text/plain; charset=utf-8';
+      break;
+    default:
+      body = payload === undefined ? null : JSON.stringify(payload);
+      contentType = 'application/json';
+  }
+
+  // Configured headers win, including Content-Type
+  const responseHeaders = new Headers({ 'Content-Type': contentType });
+  for (const [name, value] of Object.entries(headers ?? {})) {
+    responseHeaders.set(name, String(value));
+  }
+  // These statuses can't carry a body
+  return new Response(status === 204 || status === 304 ? null : body, { status, headers: responseHeaders });
+}
+
+// Read an SSE stream, reconnecting after `retryMs` (or the server's retry:)
+// when it ends or fails. Resumes with Last-Event-ID like a browser EventSource.
+async function consumeSse(
+  url: string,
+  headers: Record<string, string>,
+  retryMs: number,
+  signal: AbortSignal,
+  on: { open: () => void; event: (event: SseEvent & { event: string }) => void; error: (err: Error) => void }
+) {
+  let lastEventId: string | undefined;
+  while (!signal.aborted) {
+    try {
+      const response = await fetch(url, {
+        headers: { ...headers, Accept: 'text/event-stream', ...(lastEventId !== undefined && { 'Last-Event-ID': lastEventId }) },
+        signal
+      });
+      if (!response.ok || !response.body) {
+        throw new Error(`Server answered ${response.status}`);
+      }
+      on.open();
+      await readSseEvents(response.body, (event) => {
+        if (event.id !== undefined) lastEventId = event.id;
+        if (event.retry !== undefined) retryMs = reconnectDelayMs(event.retry);
+        if (event.data !== undefined) on.event({ ...event, data: event.data, event: event.event || 'message' });
+      });
+    } catch (err) {
+      if (signal.aborted) return;
+      on.error(err instanceof Error ? err : new Error(String(err)));
+    }
+
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(resolve, retryMs);
+      signal.addEventListener('abort', () => {
+        clearTimeout(timer);
+        resolve();
+      }, { once: true });
+    });
+  }
+}
+
+// Invalid delays fall back to the default; tiny ones are raised to the minimum
+function reconnectDelayMs(value: unknown): number {
+  const ms = typeof value === 'string' && value.trim() === '' ? NaN : Number(value);
+  if (!Number.isFinite(ms) || ms < 0) return DEFAULT_SSE_RECONNECT_MS;
+  return Math.max(MIN_SSE_RECONNECT_MS, ms);
+}
+
+// Parse an event stream, calling `onEvent` for every blank-line terminated
+// block; data is undefined for blocks without data: lines
+async function readSseEvents(body: ReadableStream<Uint8Array>, onEvent: (event: Partial<SseEvent>) => void) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event: Partial<SseEvent> = {};
+  let data: string[] = [];
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+    // A trailing \r waits for the next chunk, which may start with its \n;
+    // the last piece is an incomplete line
+    const lines = buffer.split(/\r\n|\r(?!$)|\n/);
+    buffer = lines.pop()!;
+
+    for (const line of lines) {
+      if (line === '') {
+        if (data.length > 0 || Object.keys(event).length > 0) {
+          onEvent({ ...event, data: data.length > 0 ? data.join('\n') : undefined });
+        }
+        event = {};
+        data = [];
+        continue;
+      }
+      if (line.startsWith(':')) continue; // Comment / keep-alive
+
+      const colon = line.indexOf(':');
+      const name = colon === -1 ? line : line.slice(0, colon);
+      const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+      if (name === 'data') data.push(value);
+      else if (name === 'event') event.event = value;
+      else if (name === 'id' && !value.includes('\0')) event.id = value;
+      else if (name === 'retry' && /^\d+$/.test(value)) event.retry = Number(value);
+    }
+  }
+}
+
 // Clear subscriptions (call when stopping services)
 export function clearRuntimeSubscriptions() {
   activeHttpRoutes.clear();
   activeMqttSubs.clear();
   activeWsSubs.clear();
+
+  // Disconnect SSE clients
+  for (const controller of activeSseClients.values()) {
+    controller.abort();
+  }
+  activeSseClients.clear();
   
   // Disconnect external MQTT clients
   for (const client of externalMqttClients.values()) {
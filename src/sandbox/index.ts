@@ -0,0 +1,183 @@
+import type { NodeExecutionContext, SandboxPolicy } from "../types/index.ts";
+import { Signal, createHyperflow, runDag } from "../nodes/hyperflow-nodes.ts";
+
+type HostFunction = (...args: any[]) => any;
+
+// User code run by function, filter, switch, hyperflow and interval nodes
+export interface UserCode {
+  code: string; // Body of an async function
+  args?: Record<string, any>; // Bound to parameters; passed as JSON when sandboxed
+  host?: Record<string, HostFunction | object | undefined>; // Functions or objects of functions bound to parameters; always async when sandboxed
+  hyperflow?: boolean; // Expose Signal, createHyperflow and runDag
+}
+
+// Failure of sandboxed code. `name`, `message` and `stack` are the ones of
+// the error the user code threw; timeouts and memory overruns get their own kind.
+export class SandboxError extends Error {
+  constructor(message: string, readonly kind: 'error' | 'timeout' | 'memory', name = 'SandboxError', stack?: string) {
+    super(message);
+    this.name = name;
+    if (stack) this.stack = stack;
+  }
+}
+
+// Messages exchanged with src/sandbox/worker.ts
+type WorkerMessage =
+  | { type: 'started' }
+  | { type: 'call'; id: number; name: string; args: any[] }
+  | { type: 'done'; value: any }
+  | { type: 'fail'; error: { name: string; message: string; stack?: string } };
+
+const WORKER_URL = new URL('./worker.ts', import.meta.url).href;
+const MEMORY_POLL_MS = 25;
+
+// Runs user code in a Bun Worker, inside a fresh vm context whose only
+// globals are the JavaScript built-ins plus the whitelisted API. One worker
+// is spawned per evaluation and terminated once it settles, so no state leaks
+// between evaluations.
+export class Sandbox {
+  constructor(private defaults: Required<SandboxPolicy>) {}
+
+  run(userCode: UserCode, policy: SandboxPolicy = {}, signal?: AbortSignal): Promise<any> {
+    const { timeoutMs, memoryLimitMb, allowFetch } = { ...this.defaults, ...policy };
+    // Objects of functions (e.g. flow.get) are flattened to "flow.get"
+    const host: Record<string, HostFunction> = {};
+    const bindings: Array<{ name: string; methods?: string[] }> = [];
+    for (const [name, value] of Object.entries(userCode.host ?? {})) {
+      if (typeof value === 'function') {
+        host[name] = value as HostFunction;
+        bindings.push({ name });
+      } else if (value) {
+        for (const [method, fn] of Object.entries(value)) host[`${name}.${method}`] = fn as HostFunction;
+        bindings.push({ name, methods: Object.keys(value) });
+      }
+    }
+    if (allowFetch) host.fetch = (url: string, init?: RequestInit) => proxyFetch(url, init, signal);
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) return reject(signal.reason);
+
+      const worker = new Worker(WORKER_URL, { smol: true });
+      let settled = false;
+      let budget = timeoutMs;
+      let clockStartedAt = 0;
+      let clock: ReturnType<typeof setTimeout> | undefined;
+      let memoryPoll: ReturnType<typeof setInterval> | undefined;
+      let pendingCalls = 0;
+
+      const finish = (error: Error | null, value?: any) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(clock);
+        clearInterval(memoryPoll);
+        signal?.removeEventListener('abort', onAbort);
+        worker.terminate();
+        if (error) reject(error);
+        else resolve(value);
+      };
+      const onAbort = () => finish(signal!.reason);
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      // The time budget only runs while the code itself is executing
+      const startClock = () => {
+        clockStartedAt = Date.now();
+        clock = setTimeout(() => {
+          finish(new SandboxError(`Sandbox time limit of ${timeoutMs}ms exceeded`, 'timeout', 'TimeoutError'));
+        }, Math.max(0, budget));
+      };
+      const stopClock = () => {
+        clearTimeout(clock);
+        budget -= Date.now() - clockStartedAt;
+      };
+
+      // Bun ignores worker resourceLimits, so memory is bounded by sampling
+      // how much the process grew since the code started (approximate when
+      // several sandboxes run at once)
+      const watchMemory = () => {
+        const baseline = process.memoryUsage().rss;
+        memoryPoll = setInterval(() => {
+          if (process.memoryUsage().rss - baseline > memoryLimitMb * 1024 * 1024) {
+            finish(new SandboxError(`Sandbox memory limit of ${memoryLimitMb}MB exceeded`, 'memory'));
+          }
+        }, MEMORY_POLL_MS);
+      };
+
+      worker.onmessage = async ({ data }: MessageEvent<WorkerMessage>) => {
+        switch (data.type) {
+          case 'started':
+            startClock();
+            watchMemory();
+            break;
+          case 'call': {
+            if (pendingCalls++ === 0) stopClock();
+            let reply: { type: 'settle'; id: number; ok: boolean; json?: string };
+            try {
+              const fn = host[data.name];
+              if (!fn) throw new Error(`${data.name} is not available in the sandbox`);
+              const value = await fn(...data.args);
+              reply = { type: 'settle', id: data.id, ok: true, json: value === undefined ? undefined : JSON.stringify(value) };
+            } catch (err) {
+              reply = { type: 'settle', id: data.id, ok: false, json: JSON.stringify(errorInfo(err)) };
+            }
+            if (settled) return;
+            if (--pendingCalls === 0) startClock();
+            worker.postMessage(reply);
+            break;
+          }
+          case 'done':
+            finish(null, data.value);
+            break;
+          case 'fail':
+            finish(new SandboxError(data.error.message, 'error', data.error.name, data.error.stack));
+            break;
+        }
+      };
+      worker.onerror = (event) => finish(new SandboxError(event.message, 'error'));
+
+      worker.postMessage({
+        type: 'run',
+        code: userCode.code,
+        params: Object.keys(userCode.args ?? {}),
+        args: JSON.stringify(Object.values(userCode.args ?? {})),
+        host: bindings,
+        hyperflow: !!userCode.hyperflow,
+        allowFetch
+      });
+    });
+  }
+}
+
+export const sandbox = new Sandbox({ timeoutMs: 1000, memoryLimitMb: 64, allowFetch: false });
+
+const AsyncFunction = (async () => {}).constructor as FunctionConstructor;
+
+// Run user code the way the node's workflow asks for: sandboxed when the
+// context carries a sandbox policy, otherwise in-process with full access
+export async function runUserCode(ctx: NodeExecutionContext, userCode: UserCode): Promise<any> {
+  if (ctx.sandbox) {
+    return sandbox.run(userCode, ctx.sandbox, ctx.signal);
+  }
+
+  const bindings: Record<string, any> = { ...userCode.args, ...userCode.host };
+  if (userCode.hyperflow) Object.assign(bindings, { Signal, createHyperflow, runDag });
+  const fn = new AsyncFunction(...Object.keys(bindings), userCode.code);
+  return fn(...Object.values(bindings));
+}
+
+// fetch() for sandboxed code; the body is read as text, and json()/text()
+// are rebuilt inside the sandbox
+async function proxyFetch(url: string, init: RequestInit | undefined, signal?: AbortSignal) {
+  const response = await fetch(url, { ...init, signal });
+  return {
+    url: response.url,
+    status: response.status,
+    statusText: response.statusText,
+    ok: response.ok,
+    headers: Object.fromEntries(response.headers),
+    body: await response.text()
+  };
+}
+
+function errorInfo(err: unknown): { name: string; message: string } {
+  return err instanceof Error ? { name: err.name, message: err.message } : { name: 'Error', message: String(err) };
+}
@@ -0,0 +1,128 @@
+// Worker side of the sandbox (see ./index.ts). The user code runs in a fresh
+// vm context and only ever exchanges JSON strings with this worker, so it
+// never holds a function of the worker's realm (which still has Bun, fetch
+// and the file system). The context's global has no prototype and the user
+// function is strict, so neither `this` nor the global object leads back to
+// the worker's Object and Function constructors.
+import vm from "node:vm";
+import { Signal, createHyperflow, runDag } from "../nodes/hyperflow-nodes.ts";
+
+declare var self: Worker;
+
+// Evaluated inside the context before the user code, capturing the
+// built-ins it relies on so the user code cannot tamper with them
+const BRIDGE = `(() => {
+  const stringify = JSON.stringify;
+  const parse = JSON.parse;
+  const outbox = [];
+  const pending = new Map();
+  let nextId = 0;
+
+  const call = (name, args) => new Promise((resolve, reject) => {
+    const id = ++nextId;
+    pending.set(id, { resolve, reject });
+    outbox.push({ type: 'call', id, name, args });
+  });
+  const errorInfo = (err) => ({
+    name: String(err && err.name || 'Error'),
+    message: String(err && err.message !== undefined ? err.message : err),
+    stack: err && typeof err.stack === 'string' ? err.stack : undefined
+  });
+
+  return {
+    run(fn, argsJson, bindingsJson) {
+      const args = parse(argsJson);
+      const bindings = parse(bindingsJson);
+      const stub = (name) => (...callArgs) => call(name, callArgs);
+      for (const { name, methods } of bindings) {
+        if (!methods) {
+          args.push(stub(name));
+        } else {
+          const obj = {};
+          for (const method of methods) obj[method] = stub(name + '.' + method);
+          args.push(obj);
+        }
+      }
+      Promise.resolve()
+        .then(() => fn(...args))
+        .then(value => outbox.push({ type: 'done', value }), err => outbox.push({ type: 'fail', error: errorInfo(err) }));
+    },
+    settle(id, ok, json) {
+      const entry = pending.get(id);
+      if (!entry) return;
+      pending.delete(id);
+      const value = json === undefined ? undefined : parse(json);
+      if (ok) {
+        entry.resolve(value);
+      } else {
+        const err = new Error(value.message);
+        err.name = value.name;
+        entry.reject(err);
+      }
+    },
+    fetch() {
+      return async (url, init) => {
+        const res = await call('fetch', [String(url), init]);
+        return { ...res, text: async () => res.body, json: async () => parse(res.body) };
+      };
+    },
+    take() {
+      const json = stringify(outbox);
+      outbox.length = 0;
+      return json;
+    }
+  };
+})()`;
+
+// The hyperflow runtime, recompiled inside the context from its own source
+const HYPERFLOW = `(() => {
+  ${Signal}
+  ${runDag}
+  ${createHyperflow}
+  Object.assign(globalThis, { Signal, createHyperflow, runDag });
+})()`;
+
+let bridge: any;
+let poll: ReturnType<typeof setInterval> | undefined;
+
+self.onmessage = ({ data }: MessageEvent) => {
+  if (data.type === 'settle') {
+    bridge?.settle(data.id, data.ok, data.json);
+    return;
+  }
+  if (data.type !== 'run' || bridge) return;
+
+  const context = vm.createContext(Object.create(null));
+  bridge = vm.runInContext(BRIDGE, context);
+  try {
+    if (data.hyperflow) vm.runInContext(HYPERFLOW, context);
+    if (data.allowFetch) context.fetch = bridge.fetch();
+    const fn = vm.runInContext(
+      `'use strict'; (async function (${[...data.params, ...data.host.map((binding: { name: string }) => binding.name)].join(', ')}) {\n${data.code}\n})`,
+      context,
+      { filename: 'user-code.js', lineOffset: -1 }
+    );
+    bridge.run(fn, data.args, JSON.stringify(data.host));
+  } catch (err: any) {
+    // Syntax errors surface here, before any user code ran
+    self.postMessage({ type: 'fail', error: { name: String(err?.name), message: String(err?.message), stack: String(err?.stack) } });
+    return;
+  }
+
+  self.postMessage({ type: 'started' });
+  poll = setInterval(flush, 1);
+};
+
+// Forward what the user code queued (host calls, its result) to the host
+function flush() {
+  let messages: any[];
+  try {
+    messages = JSON.parse(bridge.take());
+  } catch (err: any) {
+    messages = [{ type: 'fail', error: { name: 'TypeError', message: `Result is not serializable: ${err?.message}` } }];
+  }
+  for (const message of messages) {
+    self.postMessage(message);
+    if (message.type === 'done' || message.type === 'fail') clearInterval(poll);
+  }
+}
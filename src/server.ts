@@ -5,7 +5,11 @@ import { MqttBroker } from "./nodes/mqtt-broker.ts";
 import { WebSocketBroker } from "./nodes/websocket-broker.ts";
 import { registerHtmlOutputNodes, getHtmlOutputs, getHtmlOutputBySlug, generateHtmlPage, clearHtmlOutputs } from "./nodes/html-output.ts";
 import { authService } from "./auth/index.ts";
-import type { WorkflowDefinition } from "./types/index.ts";
+import { executionHistory, type ReplayOptions, type ResumeOptions } from "./executions/index.ts";
+import { runUserCode } from "./sandbox/index.ts";
+import { db } from "./database/index.ts";
+import { ContextStore, SqliteContextBackend } from "./context/index.ts";
+import type { WorkflowDefinition, ExecutionEventInfo, ExecutionStatus } from "./types/index.ts";
 import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
 import { join } from "path";
 
@@ -215,10 +219,12 @@ async function startServiceWithRetry<T extends { start(): Promise<void>; isRunni
   return false;
 }
 
-const httpInService = new HttpInService(3001);
+// Bearer routes accept the session tokens of editor users
+const httpInService = new HttpInService(3001, { validateToken: token => authService.validateToken(token) });
 const mqttBroker = new MqttBroker(1883);
 const wsBroker = new WebSocketBroker(1884);
-const engine = new WorkflowEngine();
+// Flow and global context persists in the database across restarts
+const engine = new WorkflowEngine(new ContextStore(new SqliteContextBackend(db)));
 
 const mqttServiceAdapter = {
   subscribe: (topic: string, handler: any) => mqttBroker.subscribe(topic, handler),
@@ -239,6 +245,7 @@ const wsServiceAdapter = {
 };
 
 registerRuntimeNodes(engine, httpInService, mqttServiceAdapter as any, wsServiceAdapter as any);
+executionHistory.attach(engine);
 registerHtmlOutputNodes(engine, wsServiceAdapter);
 
 // Track active intervals for cleanup
@@ -257,11 +264,12 @@ engine.registerNodeType('interval', async (_msg, ctx) => {
   }
   
   let count = 0;
-  const timer = setInterval(() => {
+  const timer = setInterval(async () => {
     try {
       // Evaluate payload expression
-      const func = new Function(`return ${payload}`);
-      const data = func();
+      const data = await runUserCode(ctx, { code: `return ${payload}` });
+      // Stopped (or max count reached) while the payload was evaluating
+      if (activeIntervals.get(intervalKey) !== timer) return;
       
       count++;
       ctx.log(`⏰ Interval tick #${count}`);
@@ -325,41 +333,49 @@ await authService.initializeDefaultAdmin();
 interface LogEntry {
   timestamp: string;
   message: string;
+  workflowId?: string;
+  runId?: string;
+  nodeId?: string;
 }
 
 const infoLogs: LogEntry[] = [];    // Execution info logs
 const debugLogs: LogEntry[] = [];   // Debug node output only
-let pendingExecution: { nodeName: string; timestamp: string } | null = null;
+// Debug nodes waiting for their output line, keyed by runId:nodeId so
+// concurrent runs don't pair one node's header with another node's output
+const pendingExecutions = new Map<string, { nodeName: string; timestamp: string }>();
 
 // UI Dashboard data
 const uiWidgets: Map<string, any> = new Map();
 
-const addInfoLog = (message: string) => {
+const addInfoLog = (message: string, info: ExecutionEventInfo = {}) => {
   infoLogs.push({
     timestamp: new Date().toLocaleTimeString(),
-    message
+    message,
+    ...info
   });
 };
 
-// Track node execution with minimum display time
-let nodeExecutionStartTime: number = 0;
-let currentNodeType: string = '';
-let currentWorkflowId: string = '';
+const executionKey = (runId?: string, nodeId?: string) => `${runId || ''}:${nodeId || ''}`;
+
+// Track node executions with minimum display time
+const nodeExecutions = new Map<string, { startTime: number; failed: boolean }>();
 const MIN_INDICATOR_DISPLAY_MS = 800; // Minimum time to show indicator (800ms)
 
 // Track node execution start - set the executing node ID
-engine.on('nodeStart', (nodeId: string, nodeName: string, nodeType: string, workflowId?: string) => {
+engine.on('nodeStart', (nodeId: string, nodeName: string, nodeType: string, workflowId: string, runId: string) => {
   currentExecutingNodeId = nodeId;
-  currentNodeType = nodeType;
-  currentWorkflowId = workflowId || '';
-  nodeExecutionStartTime = Date.now();
+  nodeExecutions.set(executionKey(runId, nodeId), { startTime: Date.now(), failed: false });
 });
 
 // Track node execution complete - clear the executing node ID with minimum display time
-engine.on('nodeComplete', (nodeId: string, nodeName: string, nodeType: string, workflowId?: string) => {
+engine.on('nodeComplete', (nodeId: string, nodeName: string, nodeType: string, workflowId: string, runId: string) => {
+  const key = executionKey(runId, nodeId);
+  const execution = nodeExecutions.get(key);
+  nodeExecutions.delete(key);
+
   // Track metrics
-  const elapsed = Date.now() - nodeExecutionStartTime;
-  trackExecution(workflowId || currentWorkflowId, nodeType || currentNodeType, elapsed, true);
+  const elapsed = execution ? Date.now() - execution.startTime : 0;
+  trackExecution(workflowId, nodeType, elapsed, !execution?.failed);
   
   // Only clear if this is the currently executing node
   if (currentExecutingNodeId === nodeId) {
@@ -378,7 +394,9 @@ engine.on('nodeComplete', (nodeId: string, nodeName: string, nodeType: string, w
   }
 });
 
-engine.on('log', (msg: string) => {
+engine.on('log', (msg: string, info: ExecutionEventInfo = {}) => {
+  const key = executionKey(info.runId, info.nodeId);
+
   // Check if this is an execution start message
   const execMatch = msg.match(/^▶️\s+Executing:\s+(.+?)\s+\[(.+?)\]$/);
   if (execMatch && execMatch[1] && execMatch[2]) {
@@ -387,38 +405,45 @@ engine.on('log', (msg: string) => {
     
     // Only track debug nodes for combining output
     if (nodeType === 'debug') {
-      pendingExecution = { nodeName, timestamp: new Date().toLocaleTimeString() };
+      pendingExecutions.set(key, { nodeName, timestamp: new Date().toLocaleTimeString() });
       return; // Don't log this, wait for the output
     }
     // All other execution messages go to info
-    addInfoLog(msg);
+    addInfoLog(msg, info);
     return;
   }
   
   // Check if this is output from a debug node (starts with 📋)
-  if (msg.trim().startsWith('📋') && pendingExecution) {
+  const pending = pendingExecutions.get(key);
+  if (msg.trim().startsWith('📋') && pending) {
     const data = msg.replace(/^\s*📋\s*/, '').trim();
-    const combined = `[${pendingExecution.nodeName}] ${data}`;
+    const combined = `[${pending.nodeName}] ${data}`;
     debugLogs.push({
-      timestamp: pendingExecution.timestamp,
-      message: combined
+      timestamp: pending.timestamp,
+      message: combined,
+      ...info
     });
-    pendingExecution = null;
+    pendingExecutions.delete(key);
     return;
   }
   
   // All other messages go to info logs
-  addInfoLog(msg);
-  pendingExecution = null; // Clear pending if we get something else
+  addInfoLog(msg, info);
+  pendingExecutions.delete(key); // Clear pending if we get something else
 });
 
-engine.on('error', (msg: string, workflowId?: string, nodeType?: string) => {
-  addInfoLog(`❌ ${msg}`);
-  pendingExecution = null;
+engine.on('error', (msg: string, _error: Error | undefined, info: ExecutionEventInfo = {}) => {
+  const key = executionKey(info.runId, info.nodeId);
+  addInfoLog(`❌ ${msg}`, info);
+  pendingExecutions.delete(key);
   
-  // Track failed execution
-  const elapsed = Date.now() - nodeExecutionStartTime;
-  trackExecution(workflowId || currentWorkflowId, nodeType || currentNodeType, elapsed, false);
+  // Mark the execution failed; it is counted once when the node completes
+  const execution = nodeExecutions.get(key);
+  if (execution) {
+    execution.failed = true;
+  } else if (info.workflowId) {
+    trackExecution(info.workflowId, 'unknown', 0, false);
+  }
 });
 
 // Listen for UI updates from UI nodes
@@ -458,13 +483,19 @@ const apiHandlers = {
     };
   },
 
+  // Diagnostics for a definition; routes are checked against the deployed workflows
+  validateWorkflow(workflow: WorkflowDefinition) {
+    const diagnostics = engine.validateWorkflow(workflow, deployedWorkflows);
+    return { success: true, valid: !diagnostics.some(d => d.severity === 'error'), diagnostics };
+  },
+
   // Deploy workflow - registers all listeners (http-in, mqtt-in) and persists to disk
   async deployWorkflow(workflow: WorkflowDefinition, persist: boolean = true) {
     // Load and register listeners
     engine.loadWorkflow(workflow);
     
-    // Find and execute listener/input nodes (http-in, mqtt-in, ws-in, interval)
-    const listenerTypes = ['http-in', 'mqtt-in', 'ws-in', 'websocket-in', 'interval'];
+    // Find and execute listener/input nodes (http-in, mqtt-in, sse-in, ws-in, interval)
+    const listenerTypes = ['http-in', 'mqtt-in', 'sse-in', 'ws-in', 'websocket-in', 'interval'];
     const listenerNodes = workflow.nodes.filter(n => listenerTypes.includes(n.type));
     
     // Auto-start services if needed
@@ -484,7 +515,7 @@ const apiHandlers = {
     
     // Execute listener nodes to register handlers
     for (const node of listenerNodes) {
-      await engine.executeNodeById(workflow.id, node.id);
+      await engine.executeNodeById(workflow.id, node.id, undefined, 'deploy');
     }
     
     // Add to deployed workflows (replace if exists)
@@ -552,7 +583,7 @@ const apiHandlers = {
       name: w.name,
       type: w.type,
       nodeCount: w.nodes.length,
-      listenerCount: w.nodes.filter(n => ['http-in', 'mqtt-in', 'ws-in'].includes(n.type)).length,
+      listenerCount: w.nodes.filter(n => ['http-in', 'mqtt-in', 'sse-in', 'ws-in'].includes(n.type)).length,
       activeIntervals: getActiveIntervalsCount(w.id)
     }));
   },
@@ -560,9 +591,9 @@ const apiHandlers = {
   // Trigger a specific inject node
   async triggerInject(workflow: WorkflowDefinition, nodeId: string) {
     engine.loadWorkflow(workflow);
-    await engine.executeNodeById(workflow.id, nodeId);
+    const runId = await engine.executeNodeById(workflow.id, nodeId, undefined, 'inject');
     await new Promise(r => setTimeout(r, 100));
-    return { success: true };
+    return { success: true, runId };
   },
 
   // Test a single node with input data
@@ -578,7 +609,7 @@ const apiHandlers = {
       const payload = input.payload !== undefined ? input.payload : input;
       
       // Execute the node with the provided input
-      await engine.executeNodeById(workflow.id, nodeId, payload);
+      await engine.executeNodeById(workflow.id, nodeId, payload, 'test');
       
       // Wait a bit for execution to complete (longer for AI nodes)
       await new Promise(r => setTimeout(r, 500));
@@ -606,9 +637,9 @@ const apiHandlers = {
   // Legacy run - executes entire workflow
   async runWorkflow(workflow: WorkflowDefinition) {
     engine.loadWorkflow(workflow);
-    await engine.executeWorkflow(workflow.id);
+    const runId = await engine.executeWorkflow(workflow.id);
     await new Promise(r => setTimeout(r, 50));
-    return { success: true };
+    return { success: true, runId };
   },
 
   getLogs() { return { infoLogs: [...infoLogs], debugLogs: [...debugLogs] }; },
@@ -634,6 +665,7 @@ const apiHandlers = {
 
   getMetrics() {
     const resources = getResourceUsage();
+    const limits = engine.getConcurrencyStats();
     return {
       resources,
       executions: {
@@ -650,7 +682,7 @@ const apiHandlers = {
       workflows: {
         deployed: deployedWorkflows.length,
         totalListeners: deployedWorkflows.reduce((sum, w) => 
-          sum + w.nodes.filter(n => ['http-in', 'mqtt-in', 'ws-in'].includes(n.type)).length, 0
+          sum + w.nodes.filter(n => ['http-in', 'mqtt-in', 'sse-in', 'ws-in'].includes(n.type)).length, 0
         ),
         totalNodes: deployedWorkflows.reduce((sum, w) => sum + w.nodes.length, 0)
       },
@@ -658,6 +690,10 @@ const apiHandlers = {
         mqttClients: mqttBroker.getClientCount(),
         wsClients: wsBroker.getClientCount()
       },
+      concurrency: {
+        queued: limits.reduce((sum, l) => sum + l.queued, 0),
+        limits
+      },
       serverStartTime: metrics.startTime,
       uptimeSeconds: resources.uptime
     };
@@ -674,6 +710,45 @@ const apiHandlers = {
     return { success: true };
   },
 
+  // Execution history
+  async listExecutions(query: { workflowId?: string; status?: ExecutionStatus; limit?: number; offset?: number }) {
+    const executions = await executionHistory.list(query);
+    return { executions };
+  },
+
+  async getExecution(runId: string) {
+    const execution = await executionHistory.get(runId);
+    if (!execution) {
+      return { success: false, error: 'Execution not found' };
+    }
+    return { success: true, execution };
+  },
+
+  cancelExecution(runId: string) {
+    if (!engine.cancelRun(runId)) {
+      return { success: false, error: 'Run is not in progress' };
+    }
+    return { success: true };
+  },
+
+  async replayExecution(runId: string, options: ReplayOptions) {
+    try {
+      const replayRunId = await executionHistory.replay(runId, options);
+      return { success: true, runId: replayRunId };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  },
+
+  async resumeExecution(runId: string, options: ResumeOptions) {
+    try {
+      const resumedRunId = await executionHistory.resume(runId, options);
+      return { success: true, runId: resumedRunId };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  },
+
   publishMqtt(topic: string, payload: any) {
     if (!mqttBroker.isRunning()) return { success: false, error: 'MQTT broker not running' };
     mqttBroker.publish(topic, payload);
@@ -697,6 +772,14 @@ async function checkAuth(req: Request): Promise<{ user?: any; response?: Respons
   return { user };
 }
 
+// Workflows submitted by non-admin users always run their code sandboxed with
+// the default limits; only the workflow's fetch opt-in is kept
+function enforceSandbox(workflow: WorkflowDefinition, user: { role: string }): WorkflowDefinition {
+  if (user.role === 'admin') return workflow;
+  const allowFetch = typeof workflow.sandbox === 'object' && !!workflow.sandbox.allowFetch;
+  return { ...workflow, sandbox: { allowFetch } };
+}
+
 Bun.serve({
   port: 3000,
   routes: {
@@ -742,10 +825,29 @@ Bun.serve({
         if (authResult.response) return authResult.response;
 
         const workflow = await req.json() as WorkflowDefinition;
-        const result = await apiHandlers.deployWorkflow(workflow);
+        const validation = apiHandlers.validateWorkflow(workflow);
+        if (!validation.valid) {
+          const errors = validation.diagnostics.filter(d => d.severity === 'error');
+          return Response.json({
+            success: false,
+            error: `Workflow has ${errors.length} error${errors.length === 1 ? '' : 's'}: ${errors.map(d => d.message).join('; ')}`,
+            diagnostics: validation.diagnostics
+          }, { status: 400 });
+        }
+        const result = await apiHandlers.deployWorkflow(enforceSandbox(workflow, authResult.user));
         return Response.json(result);
       }
     },
+
+    "/api/workflow/validate": {
+      POST: async (req: any) => {
+        const authResult = await checkAuth(req);
+        if (authResult.response) return authResult.response;
+
+        const workflow = await req.json() as WorkflowDefinition;
+        return Response.json(apiHandlers.validateWorkflow(workflow));
+      }
+    },
     
     "/api/workflow/undeploy": {
       POST: async (req: any) => {
@@ -786,7 +888,7 @@ Bun.serve({
         if (authResult.response) return authResult.response;
 
         const { workflow, nodeId } = await req.json() as { workflow: WorkflowDefinition; nodeId: string };
-        const result = await apiHandlers.triggerInject(workflow, nodeId);
+        const result = await apiHandlers.triggerInject(enforceSandbox(workflow, authResult.user), nodeId);
         return Response.json(result);
       }
     },
@@ -797,7 +899,7 @@ Bun.serve({
         if (authResult.response) return authResult.response;
 
         const { workflow, nodeId, input } = await req.json() as { workflow: WorkflowDefinition; nodeId: string; input: any };
-        const result = await apiHandlers.testNode(workflow, nodeId, input);
+        const result = await apiHandlers.testNode(enforceSandbox(workflow, authResult.user), nodeId, input);
         return Response.json(result);
       }
     },
@@ -808,7 +910,7 @@ Bun.serve({
         if (authResult.response) return authResult.response;
 
         const workflow = await req.json() as WorkflowDefinition;
-        const result = await apiHandlers.runWorkflow(workflow);
+        const result = await apiHandlers.runWorkflow(enforceSandbox(workflow, authResult.user));
         return Response.json(result);
       }
     },
@@ -843,6 +945,69 @@ Bun.serve({
       }
     },
     
+    "/api/executions": {
+      GET: async (req: any) => {
+        const authResult = await checkAuth(req);
+        if (authResult.response) return authResult.response;
+
+        const url = new URL(req.url);
+        const limit = parseInt(url.searchParams.get('limit') || '50', 10);
+        const offset = parseInt(url.searchParams.get('offset') || '0', 10);
+        const result = await apiHandlers.listExecutions({
+          workflowId: url.searchParams.get('workflowId') || undefined,
+          status: (url.searchParams.get('status') || undefined) as ExecutionStatus | undefined,
+          limit: Math.min(Math.max(limit || 50, 1), 500),
+          offset: Math.max(offset || 0, 0)
+        });
+        return Response.json(result);
+      }
+    },
+
+    "/api/executions/:runId": {
+      GET: async (req: any) => {
+        const authResult = await checkAuth(req);
+        if (authResult.response) return authResult.response;
+
+        const result = await apiHandlers.getExecution(req.params.runId);
+        return Response.json(result, { status: result.success ? 200 : 404 });
+      }
+    },
+
+    "/api/executions/:runId/cancel": {
+      POST: async (req: any) => {
+        const authResult = await checkAuth(req);
+        if (authResult.response) return authResult.response;
+
+        const result = apiHandlers.cancelExecution(req.params.runId);
+        return Response.json(result, { status: result.success ? 200 : 409 });
+      }
+    },
+
+    "/api/executions/:runId/replay": {
+      POST: async (req: any) => {
+        const authResult = await checkAuth(req);
+        if (authResult.response) return authResult.response;
+
+        const options = await req.json() as ReplayOptions;
+        if (!options.nodeId) {
+          return Response.json({ success: false, error: 'nodeId is required' }, { status: 400 });
+        }
+        const result = await apiHandlers.replayExecution(req.params.runId, options);
+        return Response.json(result, { status: result.success ? 200 : 400 });
+      }
+    },
+
+    "/api/executions/:runId/resume": {
+      POST: async (req: any) => {
+        const authResult = await checkAuth(req);
+        if (authResult.response) return authResult.response;
+
+        const options = await req.json().catch(() => ({})) as ResumeOptions;
+        const result = await apiHandlers.resumeExecution(req.params.runId, options);
+        return Response.json(result, { status: result.success ? 200 : 400 });
+      }
+    },
+    
     "/api/mqtt/publish": {
       POST: async (req: any) => {
         const authResult = await checkAuth(req);
@@ -1004,7 +1169,7 @@ console.log("🚀 NodeFlow server running at http://localhost:3000");
       try {
         await apiHandlers.deployWorkflow(workflow, false); // Don't re-save
         deployedWorkflows.push(workflow);
-        const listenerCount = workflow.nodes.filter(n => ['http-in', 'mqtt-in', 'ws-in'].includes(n.type)).length;
+        const listenerCount = workflow.nodes.filter(n => ['http-in', 'mqtt-in', 'sse-in', 'ws-in'].includes(n.type)).length;
         console.log(`   ✓ "${workflow.name}" (${listenerCount} listeners)`);
       } catch (err) {
         console.error(`   ✗ Failed to deploy "${workflow.name}":`, err);
@@ -4,6 +4,17 @@ export interface WorkflowMessage {
   payload: any;
   metadata?: Record<string, any>;
   error?: string;
+  state?: Record<string, any>; // State accumulated by the steps of a step workflow run
+}
+
+// Position of a message within a sequence (e.g. produced by split), stored
+// as metadata.parts so join can reassemble it
+export interface MessageParts {
+  id: string;     // Shared by every message of the sequence
+  index: number;
+  count: number;
+  key?: string;   // Property name when an object was split by key
+  parent?: MessageParts; // Enclosing sequence when splits are nested
 }
 
 export interface NodeConfig {
@@ -12,24 +23,143 @@ export interface NodeConfig {
   name: string;
   config: Record<string, any>;
   wires: string[][]; // Array of output wire arrays
+  errorOutput?: number; // Index into wires that receives failures of this node
+  retry?: RetryPolicy;
+  timeout?: number; // Milliseconds one attempt of this node may take
+  onFailure?: StepFailurePolicy; // Step workflows only; defaults to 'stop'
+  concurrency?: ConcurrencyLimit; // Executions of this node running at once, across runs
   position?: { x: number; y: number }; // For UI positioning
 }
 
+// How executeNode retries a node whose executor throws
+export interface RetryPolicy {
+  maxAttempts: number; // Including the first attempt
+  backoff?: 'fixed' | 'exponential';
+  delayMs?: number; // Fixed delay, or the first delay when exponential
+  maxDelayMs?: number;
+  jitter?: boolean; // Randomize each delay between 50% and 100%
+  retryOn?: string[]; // Regexes tested against the error name, code and message; empty retries everything
+}
+
+// Caps how many executions run at once; the ones over the cap wait in a FIFO
+// queue. When the queue is full too, 'drop' discards the new message (logged)
+// and 'reject' fails it with a QueueFullError.
+export interface ConcurrencyLimit {
+  max: number;
+  maxQueue?: number; // Executions that may wait; no limit when unset
+  overflow?: 'drop' | 'reject'; // Defaults to 'reject'
+}
+
+// Current load of one concurrency limit, reported by /api/metrics
+export interface ConcurrencyStats {
+  workflowId: string;
+  nodeId?: string; // Unset for the limit on runs of the workflow
+  max: number;
+  maxQueue?: number;
+  active: number;
+  queued: number;
+  dropped: number;
+  rejected: number;
+}
+
+// What a step workflow does when a step fails: end the run, continue with
+// the next step, or continue at the step with the given id
+export type StepFailurePolicy = 'stop' | 'skip' | { goto: string };
+
+// Position of a step workflow run, saved before every step so the run can be
+// resumed there after a failure, cancellation or restart
+export interface StepCheckpoint {
+  runId: string;
+  workflowId: string;
+  nextStep: string | null; // Id of the step to run next; null once the run is done
+  msg: WorkflowMessage;    // Input of that step, including the accumulated state
+  updatedAt: number;
+}
+
 export interface WorkflowDefinition {
   id: string;
   name: string;
-  type: 'flow' | 'step';
+  type: 'flow' | 'step'; // 'step' runs nodes one after the other in array order, ignoring wires
   nodes: NodeConfig[];
+  timeout?: number; // Milliseconds a run of this workflow may take
+  sandbox?: boolean | SandboxPolicy; // Run user code (function, filter, hyperflow...) isolated in a worker
+  subflows?: WorkflowDefinition[]; // Workflows referenced by subflow nodes, bundled on deploy
+  allowCycles?: boolean; // Wire loops are intentional; validation only warns about them
+  maxHops?: number; // Nodes a message may pass through before it is stopped (default 1000, 0 = no limit)
+  concurrency?: ConcurrencyLimit; // Runs of this workflow executing at once
+  cloneMessages?: boolean; // Deep copy messages for each branch of a fan-out (default true); false shares them
+}
+
+// Limits for user code running in the sandbox
+export interface SandboxPolicy {
+  timeoutMs?: number;     // CPU budget per evaluation; time spent waiting on log/fetch/AI calls is not counted
+  memoryLimitMb?: number; // Memory the evaluation may allocate
+  allowFetch?: boolean;   // Expose a fetch() proxied through the host
 }
 
 export interface NodeExecutionContext {
   node: NodeConfig;
   workflowId?: string;
-  send: (msg: WorkflowMessage, output?: number) => void;
+  runId: string; // Unique per execution, shared by every node the run touches
+  signal: AbortSignal; // Aborted when the node times out or the run is cancelled
+  sandbox?: SandboxPolicy; // Set when the workflow's user code must run sandboxed
+  flow: ContextScope;   // State shared by every node of the workflow, across runs
+  global: ContextScope; // State shared by every workflow
+  // Returns false when a listener node (sending after it returned) had its
+  // run turned away by the workflow's concurrency limit
+  send: (msg: WorkflowMessage, output?: number) => boolean | void;
+  // Run a node of the workflow (id or name), or a node config that isn't part
+  // of it, as a call: its wires aren't followed. Resolves with what it sent on
+  // its first output and rejects with its failure.
+  call: (node: string | NodeConfig, msg: WorkflowMessage) => Promise<WorkflowMessage[]>;
   log: (msg: string) => void;
   error: (msg: string, err?: Error) => void;
 }
 
+// Key/value state of the context store; values must be JSON-serializable
+export interface ContextScope {
+  get(key: string): Promise<any>;
+  set(key: string, value: any): Promise<void>; // Setting undefined deletes the key
+  keys(): Promise<string[]>;
+}
+
+// Attached to every engine event (nodeStart, nodeComplete, log, error)
+export interface ExecutionEventInfo {
+  workflowId?: string;
+  runId?: string;
+  nodeId?: string;
+}
+
+export type ExecutionStatus = 'running' | 'success' | 'error' | 'cancelled';
+
+// Lifecycle of one run, emitted as 'runStart' and 'runComplete'
+export interface ExecutionRunInfo {
+  runId: string;
+  workflowId: string;
+  workflowName: string;
+  trigger: string; // 'workflow', 'manual', 'inject', 'deploy', 'replay' or the listener node type
+  triggerNodeId?: string;
+  replayOf?: string; // Run this one replays
+  status: ExecutionStatus;
+  startedAt: number;
+  finishedAt?: number;
+  error?: string;
+}
+
+// One node execution within a run, emitted as 'nodeTrace'
+export interface NodeExecutionTrace {
+  runId: string;
+  workflowId: string;
+  nodeId: string;
+  nodeName: string;
+  nodeType: string;
+  input: WorkflowMessage;
+  outputs: Array<{ output: number; message: WorkflowMessage }>;
+  error?: string;
+  startedAt: number;
+  finishedAt: number;
+}
+
 export type NodeExecutor = (
   msg: WorkflowMessage,
   context: NodeExecutionContext
@@ -43,21 +173,41 @@ export interface NodeTypeDefinition {
   color: string;
   inputs: number;
   outputs: number;
+  dynamicOutputs?: (config: Record<string, any>) => number; // Output count that depends on the node's config
   icon?: string;
   description?: string;
   configFields?: ConfigField[];
 }
 
+// One rule of a switch node; each rule routes to its own output
+export interface SwitchRule {
+  type: 'eq' | 'regex' | 'range' | 'type' | 'js' | 'else';
+  value?: any;  // eq: value to compare, regex: pattern, type: type name, js: expression
+  min?: number; // range bounds (inclusive)
+  max?: number;
+}
+
 export interface ConfigField {
   name: string;
   label: string;
-  type: 'string' | 'number' | 'boolean' | 'code' | 'select' | 'ai-config' | 'mqtt-config';
+  type: 'string' | 'number' | 'boolean' | 'code' | 'select' | 'ai-config' | 'mqtt-config' | 'workflow';
   language?: 'javascript' | 'json' | 'markdown' | 'text' | 'html'; // For code type
   options?: string[];
   default?: any;
+  required?: boolean; // Validation fails when the config leaves it empty
   showWhen?: { field: string; value: any }; // Conditionally show field
 }
 
+// Problem found by WorkflowEngine.validateWorkflow; errors prevent deploys
+export interface WorkflowDiagnostic {
+  severity: 'error' | 'warning';
+  code: 'invalid-definition' | 'duplicate-id' | 'unknown-type' | 'dangling-wire' | 'invalid-output' | 'unreachable' | 'cycle' | 'missing-config' | 'duplicate-route';
+  message: string;
+  nodeId?: string;
+  nodeIds?: string[]; // Nodes of a cycle, or the http-in nodes sharing a route
+  field?: string;     // Config field of missing-config
+}
+
 // HTML Output node data store
 export interface HtmlOutputData {
   nodeId: string;
@@ -92,8 +242,25 @@ export interface AuthSession {
   createdAt: number;
 }
 
+// Execution history types
+export interface ExecutionRecord extends ExecutionRunInfo {
+  nodeCount: number;
+  workflow?: WorkflowDefinition; // Definition the run executed (detail only)
+  nodes?: NodeExecutionTrace[];  // Per-node snapshots (detail only)
+  checkpoint?: StepCheckpoint;   // Last position of a step workflow run (detail only)
+}
+
+export interface ExecutionQuery {
+  workflowId?: string;
+  status?: ExecutionStatus;
+  limit?: number;
+  offset?: number;
+}
+
 // Database types
 export interface DatabaseSchema {
   users: User;
   auth_sessions: AuthSession;
+  executions: ExecutionRecord;
+  execution_nodes: NodeExecutionTrace;
 }
\ No newline at end of file
@@ -13,7 +13,7 @@ import {
   type BackgroundVariant,
 } from '@xyflow/react';
 import '@xyflow/react/dist/style.css';
-import { IconDeviceFloppy, IconBug, IconInfoCircle, IconSitemap, IconLayoutSidebarRightCollapse, IconLayoutSidebarRightExpand, IconBrush, IconPlayerPlay, IconPlayerStop, IconLogin, IconDashboard } from '@tabler/icons-react';
+import { IconDeviceFloppy, IconBug, IconInfoCircle, IconSitemap, IconLayoutSidebarRightCollapse, IconLayoutSidebarRightExpand, IconBrush, IconPlayerPlay, IconPlayerStop, IconLogin, IconDashboard, IconHistory, IconBox, IconArrowLeft } from '@tabler/icons-react';
 
 import WorkflowNode from './components/WorkflowNode.tsx';
 import { NodeConfigPanel } from './components/NodeConfigPanel.tsx';
@@ -21,16 +21,19 @@ import { NodeConfigModal } from './components/NodeConfigModal.tsx';
 import { DataTableModal } from './components/DataTableModal.tsx';
 import { LogPanel } from './components/LogPanel.tsx';
 import { DashboardPanel } from './components/DashboardPanel.tsx';
+import { ExecutionsPanel } from './components/ExecutionsPanel.tsx';
 import { ProjectSidebar } from './components/ProjectSidebar.tsx';
 import { CodeEditor } from './components/CodeEditor.tsx';
-import { nodeDefinitionMap } from '../nodes/node-definitions.ts';
+import { nodeDefinitionMap, getOutputCount } from '../nodes/node-definitions.ts';
 import { defaultProject, type Project } from '../workflows/templates.ts';
+import { bundleSubflows, collapseIntoSubflow, refreshSubflowOutputs, subflowOutputCount } from '../workflows/subflows.ts';
 import type { NodeConfig, WorkflowDefinition } from '../types/index.ts';
 
 interface WorkflowNodeData {
   label: string;
   type: string;
   config: Record<string, any>;
+  settings?: Partial<NodeConfig>;
   [key: string]: unknown;
 }
 
@@ -76,7 +79,7 @@ export default function App() {
   const [edges, setEdges, onEdgesChange] = useEdgesState<Edge>([]);
   const [selectedNode, setSelectedNode] = useState<NodeConfig | null>(null);
   const [showNodeModal, setShowNodeModal] = useState(false);
-  const [infoLogs, setInfoLogs] = useState<Array<{ timestamp: string; message: string }>>([]);
+  const [infoLogs, setInfoLogs] = useState<Array<{ timestamp: string; message: string; runId?: string }>>([]);
   const [debugLogs, setDebugLogs] = useState<Array<{ timestamp: string; message: string }>>([]);
   const [runtimeStatus, setRuntimeStatus] = useState({ http: false, mqtt: false, ws: false, mqttClients: 0, wsClients: 0, memory: 0, uptime: 0 });
   const [isDeployed, setIsDeployed] = useState(false);
@@ -85,13 +88,15 @@ export default function App() {
     resources: { memory: { heapUsed: number; rss: number }; uptime: number };
     workflows: { deployed: number; totalListeners: number };
   } | null>(null);
-  const [rightSidebarTab, setRightSidebarTab] = useState<'info' | 'debug' | 'dashboard'>('debug');
+  const [rightSidebarTab, setRightSidebarTab] = useState<'info' | 'debug' | 'runs' | 'dashboard'>('debug');
   const [leftSidebarVisible, setLeftSidebarVisible] = useState(true);
   const [rightSidebarVisible, setRightSidebarVisible] = useState(true);
   
   const [projects, setProjects] = useState<Project[]>(loadProjects);
   const [currentProject, setCurrentProject] = useState<Project | null>(projects[0] || null);
   const [currentWorkflow, setCurrentWorkflow] = useState<WorkflowDefinition | null>(null);
+  // Workflows we drilled down from into subflows, innermost last
+  const [subflowTrail, setSubflowTrail] = useState<WorkflowDefinition[]>([]);
   const [viewMode, setViewMode] = useState<'builder' | 'code'>('builder');
   
   // Authentication state
@@ -241,7 +246,7 @@ export default function App() {
           headers: { 'Authorization': `Bearer ${authToken}` }
         });
         const data = await res.json() as {
-          infoLogs: Array<{ timestamp: string; message: string }>;
+          infoLogs: Array<{ timestamp: string; message: string; runId?: string }>;
           debugLogs: Array<{ timestamp: string; message: string }>;
         };
         setInfoLogs(data.infoLogs);
@@ -266,6 +271,11 @@ export default function App() {
   // Trigger inject node - uses refs to avoid circular deps
   const authTokenRef = useRef(authToken);
   useEffect(() => { authTokenRef.current = authToken; }, [authToken]);
+
+  // currentProject is a snapshot taken when it was selected; projects holds the latest workflows
+  const projectWorkflows = projects.find(p => p.id === currentProject?.id)?.workflows ?? [];
+  const projectWorkflowsRef = useRef(projectWorkflows);
+  useEffect(() => { projectWorkflowsRef.current = projectWorkflows; }, [projectWorkflows]);
   
   const triggerInject = useCallback(async (nodeId: string) => {
     const ns = nodesRef.current;
@@ -282,9 +292,9 @@ export default function App() {
         wires[outputIdx]!.push(e.target);
       });
       if (wires.length === 0) wires.push([]);
-      return { id: n.id, type: n.data.type, name: n.data.label, config: n.data.config, wires, position: n.position };
+      return { ...n.data.settings, id: n.id, type: n.data.type, name: n.data.label, config: n.data.config, wires, position: n.position };
     });
-    const workflow = { id: wf?.id || `workflow-${Date.now()}`, name: wf?.name || 'Untitled', nodes: workflowNodes };
+    const workflow = bundleSubflows({ id: wf?.id || `workflow-${Date.now()}`, name: wf?.name || 'Untitled', type: wf?.type || 'flow', nodes: workflowNodes }, projectWorkflowsRef.current);
 
     try {
       const response = await fetch('/api/workflow/inject', {
@@ -306,12 +316,16 @@ export default function App() {
   }, []); // No dependencies - uses refs
 
   const loadWorkflowToCanvas = (workflow: WorkflowDefinition) => {
-    const flowNodes: FlowNode[] = workflow.nodes.map((n, i) => ({
-      id: n.id,
-      type: 'workflow',
-      position: n.position || { x: 100, y: 100 + i * 120 },
-      data: { label: n.name, type: n.type, config: n.config, onInject: triggerInject, isDeployed: false, onDelete: handleDeleteNode, isExecuting: false }
-    }));
+    const flowNodes: FlowNode[] = workflow.nodes.map((n, i) => {
+      // Keep NodeConfig fields the canvas doesn't edit directly (e.g. errorOutput)
+      const { id, type, name, config, wires, position, ...settings } = n;
+      return {
+        id,
+        type: 'workflow',
+        position: position || { x: 100, y: 100 + i * 120 },
+        data: { label: name, type, config, settings, onInject: triggerInject, isDeployed: false, onDelete: handleDeleteNode, isExecuting: false }
+      };
+    });
 
     const flowEdges: Edge[] = [];
     workflow.nodes.forEach(n => {
@@ -342,20 +356,27 @@ export default function App() {
     })));
   }, [isDeployed, executingNodeId]); // triggerInject is stable (no deps)
 
+  // Workflow-level settings (timeout, sandbox, allowCycles...) are kept as loaded
   const buildWorkflow = (): WorkflowDefinition => {
     const workflowType = currentWorkflow?.type || 'flow';
     
     if (workflowType === 'step') {
-      // Step workflow: auto-wire nodes sequentially
-      const workflowNodes: NodeConfig[] = nodes.map((n, index) => ({
-        id: n.id,
-        type: n.data.type,
-        name: n.data.label,
-        config: n.data.config,
-        wires: index < nodes.length - 1 ? [[nodes[index + 1]!.id]] : [[]],
-        position: undefined
-      }));
-      return { id: currentWorkflow?.id || `workflow-${Date.now()}`, name: currentWorkflow?.name || 'Untitled', type: 'step', nodes: workflowNodes };
+      // Step workflow: auto-wire nodes sequentially (for display; the engine
+      // runs steps in order). Catch nodes handle failures and are no steps.
+      const steps = nodes.filter(n => n.data.type !== 'catch');
+      const workflowNodes: NodeConfig[] = nodes.map((n) => {
+        const index = steps.indexOf(n);
+        return {
+          id: n.id,
+          type: n.data.type,
+          name: n.data.label,
+          config: n.data.config,
+          ...n.data.settings,
+          wires: index >= 0 && index < steps.length - 1 ? [[steps[index + 1]!.id]] : [[]],
+          position: undefined
+        };
+      });
+      return { ...currentWorkflow, id: currentWorkflow?.id || `workflow-${Date.now()}`, name: currentWorkflow?.name || 'Untitled', type: 'step', nodes: workflowNodes };
     }
     
     // Flow workflow: use edges for wiring
@@ -368,12 +389,12 @@ export default function App() {
         wires[outputIdx]!.push(e.target);
       });
       if (wires.length === 0) wires.push([]);
-      return { id: n.id, type: n.data.type, name: n.data.label, config: n.data.config, wires, position: n.position };
+      return { ...n.data.settings, id: n.id, type: n.data.type, name: n.data.label, config: n.data.config, wires, position: n.position };
     });
-    return { id: currentWorkflow?.id || `workflow-${Date.now()}`, name: currentWorkflow?.name || 'Untitled', type: 'flow', nodes: workflowNodes };
+    return { ...currentWorkflow, id: currentWorkflow?.id || `workflow-${Date.now()}`, name: currentWorkflow?.name || 'Untitled', type: 'flow', nodes: workflowNodes };
   };
 
-  const saveCurrentWorkflow = () => {
+  const saveCurrentWorkflow = (): WorkflowDefinition | undefined => {
     if (!currentWorkflow) return;
     
     // For visual workflows in code view mode
@@ -391,6 +412,7 @@ export default function App() {
       ? { ...p, workflows: p.workflows.map(w => w.id === currentWorkflow.id ? updated : w), updatedAt: Date.now() } 
       : p));
     setCurrentWorkflow(updated);
+    return updated;
   };
 
   // Run workflow - trigger the first inject node
@@ -410,7 +432,7 @@ export default function App() {
 
   // Deploy workflow - registers all listeners
   const deployWorkflow = async () => {
-    const workflow = buildWorkflow();
+    const workflow = bundleSubflows(buildWorkflow(), projectWorkflows);
     try {
       const response = await fetch('/api/workflow/deploy', {
         method: 'POST',
@@ -461,6 +483,13 @@ export default function App() {
   };
 
   const handleSelectWorkflow = async (workflow: WorkflowDefinition) => {
+    setSubflowTrail([]);
+    await openWorkflow(workflow, projectWorkflows);
+  };
+
+  const openWorkflow = async (selected: WorkflowDefinition, available: WorkflowDefinition[]) => {
+    // Subflows may have gained or lost ports since this workflow was saved
+    const workflow = refreshSubflowOutputs(selected, available);
     setCurrentWorkflow(workflow);
     loadWorkflowToCanvas(workflow);
     
@@ -538,6 +567,41 @@ export default function App() {
     loadWorkflowToCanvas(workflow);
   };
 
+  // Replace the selected nodes with a subflow node running them as a new workflow
+  const collapseSelection = () => {
+    if (!currentProject || !currentWorkflow) return;
+    const selected = new Set(nodes.filter(n => n.selected).map(n => n.id));
+    if (selected.size === 0) return;
+    const name = prompt('Subflow name', 'Subflow');
+    if (!name) return;
+    const { parent, subflow } = collapseIntoSubflow(buildWorkflow(), selected, { id: `workflow-${Date.now()}`, name, nodeId: getId() });
+    const update = (workflows: WorkflowDefinition[]) => [...workflows.map(w => w.id === parent.id ? parent : w), subflow];
+    setProjects(prev => prev.map(p => p.id === currentProject.id ? { ...p, workflows: update(p.workflows), updatedAt: Date.now() } : p));
+    setCurrentProject(prev => prev ? { ...prev, workflows: update(prev.workflows) } : null);
+    setCurrentWorkflow(parent);
+    loadWorkflowToCanvas(parent);
+  };
+
+  // Double-clicking a subflow node opens the workflow it runs
+  const onNodeDoubleClick = (_: React.MouseEvent, node: FlowNode) => {
+    if (node.data.type !== 'subflow' || !currentWorkflow) return;
+    const subflow = projectWorkflows.find(w => w.id === node.data.config.workflowId);
+    if (!subflow) return;
+    const parent = saveCurrentWorkflow() ?? currentWorkflow;
+    setShowNodeModal(false);
+    setSubflowTrail(trail => [...trail, parent]);
+    openWorkflow(subflow, projectWorkflows);
+  };
+
+  const leaveSubflow = () => {
+    const parent = subflowTrail[subflowTrail.length - 1];
+    if (!parent) return;
+    const saved = saveCurrentWorkflow();
+    const available = saved ? projectWorkflows.map(w => w.id === saved.id ? saved : w) : projectWorkflows;
+    setSubflowTrail(trail => trail.slice(0, -1));
+    openWorkflow(available.find(w => w.id === parent.id) ?? parent, available);
+  };
+
   const onConnect = useCallback((params: Connection) => { setEdges((eds) => addEdge({ ...params, animated: true }, eds)); }, [setEdges]);
   const onDragStart = (event: React.DragEvent, nodeType: string) => { event.dataTransfer.setData('application/reactflow', nodeType); event.dataTransfer.effectAllowed = 'move'; };
   const onDragOver = useCallback((event: React.DragEvent) => { event.preventDefault(); event.dataTransfer.dropEffect = 'move'; }, []);
@@ -554,21 +618,53 @@ export default function App() {
   }, [setNodes, isDeployed, triggerInject]);
 
   const onNodeClick = useCallback((_: React.MouseEvent, node: FlowNode) => {
-    setSelectedNode({ id: node.id, type: node.data.type, name: node.data.label, config: node.data.config, wires: [] });
+    setSelectedNode({ ...node.data.settings, id: node.id, type: node.data.type, name: node.data.label, config: node.data.config, wires: [] });
     setShowNodeModal(true);
   }, []);
 
+  // `_name` renames the node; `_settings` updates NodeConfig fields outside config
   const updateNodeConfig = (id: string, config: Record<string, any>) => {
+    const { _name, _settings, ...newConfig } = config;
+    const node = nodes.find(n => n.id === id);
+    if (!node) return;
+
+    // A subflow node has one output per port of the workflow it runs
+    if (node.data.type === 'subflow') {
+      const target = projectWorkflows.find(w => w.id === newConfig.workflowId);
+      newConfig.outputs = target ? subflowOutputCount(target) : 1;
+    }
+
+    const settings: Partial<NodeConfig> = Object.fromEntries(
+      Object.entries({ ...node.data.settings, ..._settings }).filter(([, v]) => v !== undefined)
+    );
+
+    // The error output sits after the regular outputs, whose number can
+    // depend on the config (e.g. switch rules)
+    const outputCount = getOutputCount(node.data.type, newConfig);
+    const oldErrorOutput = node.data.settings?.errorOutput;
+    if (settings.errorOutput !== undefined) settings.errorOutput = outputCount;
+
+    // Move or drop wires of handles that changed
+    if (settings.errorOutput !== oldErrorOutput || outputCount !== getOutputCount(node.data.type, node.data.config)) {
+      setEdges(es => es.flatMap(e => {
+        if (e.source !== id) return [e];
+        const index = e.sourceHandle ? parseInt(e.sourceHandle.replace('output-', '')) : 0;
+        if (index === oldErrorOutput) {
+          return settings.errorOutput === undefined ? [] : [{ ...e, sourceHandle: `output-${settings.errorOutput}` }];
+        }
+        return index < outputCount ? [e] : [];
+      }));
+    }
+
     setNodes((nds) => nds.map((n) => {
       if (n.id === id) {
-        const newName = config._name || n.data.label;
-        const newConfig = { ...config };
-        delete newConfig._name;
-        return { ...n, data: { ...n.data, label: newName, config: newConfig } };
+        return { ...n, data: { ...n.data, label: _name || n.data.label, config: newConfig, settings } };
       }
       return n;
     }));
-    if (selectedNode?.id === id) setSelectedNode({ ...selectedNode, config, name: config._name || selectedNode.name });
+    if (selectedNode?.id === id) {
+      setSelectedNode({ ...settings, id, type: selectedNode.type, name: _name || selectedNode.name, config: newConfig, wires: selectedNode.wires });
+    }
   };
 
   const clearInfoLogs = async () => {
@@ -728,6 +824,16 @@ export default function App() {
               </div>
             </div>
             
+            {subflowTrail.length > 0 && (
+              <button
+                onClick={leaveSubflow}
+                className="p-2 hover:bg-gray-100 rounded-lg text-gray-600 hover:text-gray-900 transition-colors"
+                title={`Back to ${subflowTrail[subflowTrail.length - 1]!.name}`}
+              >
+                <IconArrowLeft size={20} />
+              </button>
+            )}
+
             <h1 className="text-xl font-bold text-gray-900">
               {currentWorkflow ? currentWorkflow.name : 'Dashboard'}
             </h1>
@@ -818,8 +924,19 @@ export default function App() {
                   </button>
                 )}
                 
+                {viewMode === 'builder' && currentWorkflow.type !== 'step' && nodes.some(n => n.selected) && (
+                  <button
+                    onClick={collapseSelection}
+                    className="btn btn-sm btn-secondary bg-white hover:bg-gray-50 text-gray-700 border-gray-200"
+                    title="Move the selected nodes into a new subflow"
+                  >
+                    <IconBox size={16} />
+                    Collapse to subflow
+                  </button>
+                )}
+
                 <button
-                  onClick={saveCurrentWorkflow}
+                  onClick={() => saveCurrentWorkflow()}
                   className="btn btn-sm btn-primary bg-blue-600 hover:bg-blue-700 text-white border-transparent"
                 >
                   <IconDeviceFloppy size={16} />
@@ -843,6 +960,7 @@ export default function App() {
                 onDrop={onDrop}
                 onDragOver={onDragOver}
                 onNodeClick={onNodeClick as any}
+                onNodeDoubleClick={onNodeDoubleClick as any}
                 nodeTypes={nodeTypes}
                 fitView
                 proOptions={{ hideAttribution: true }}
@@ -900,6 +1018,17 @@ export default function App() {
                       <IconBug size={13} />
                       Debug
                     </button>
+                    <button
+                      onClick={() => setRightSidebarTab('runs')}
+                      className={`flex-1 flex items-center justify-center gap-1 py-1.5 text-xs font-medium rounded-md transition-all ${
+                        rightSidebarTab === 'runs'
+                          ? 'bg-white text-gray-900 shadow-sm'
+                          : 'text-gray-500 hover:text-gray-700'
+                      }`}
+                    >
+                      <IconHistory size={13} />
+                      Runs
+                    </button>
                     <button
                       onClick={() => setRightSidebarTab('dashboard')}
                       className={`flex-1 flex items-center justify-center gap-1 py-1.5 text-xs font-medium rounded-md transition-all ${
@@ -1047,6 +1176,9 @@ export default function App() {
                             {infoLogs.map((log, i) => (
                               <div key={i} className="p-2 border-b border-gray-100 hover:bg-gray-50">
                                 <span className="text-gray-400 text-[10px]">{log.timestamp}</span>
+                                {log.runId && (
+                                  <span className="ml-2 text-gray-400 text-[10px]" title={`Run ${log.runId}`}>#{log.runId.slice(0, 8)}</span>
+                                )}
                                 <div className="text-gray-700 mt-0.5">{log.message}</div>
                               </div>
                             ))}
@@ -1062,6 +1194,11 @@ export default function App() {
                     onClearInfo={clearInfoLogs}
                     onClearDebug={clearDebugLogs} 
                   />
+                ) : rightSidebarTab === 'runs' ? (
+                  <ExecutionsPanel
+                    authToken={authToken}
+                    workflowId={currentWorkflow?.id}
+                  />
                 ) : (
                   <DashboardPanel 
                     onClear={() => {
@@ -1101,6 +1238,10 @@ export default function App() {
             onUpdate={updateNodeConfig}
             onClose={() => setShowNodeModal(false)}
             authToken={authToken}
+            workflows={projectWorkflows.filter(w => w.id !== currentWorkflow?.id)}
+            steps={currentWorkflow?.type === 'step'
+              ? nodes.filter(n => n.data.type !== 'catch').map(n => ({ id: n.id, name: n.data.label }))
+              : undefined}
           />
         )
       )}
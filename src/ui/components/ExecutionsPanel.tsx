@@ -0,0 +1,316 @@
+import { useEffect, useState } from 'react';
+import { IconHistory, IconArrowLeft, IconChevronDown, IconChevronRight, IconRefresh, IconPlayerPlay, IconPlayerStop } from '@tabler/icons-react';
+import type { ExecutionRecord, NodeExecutionTrace } from '../../types/index.ts';
+
+interface ExecutionsPanelProps {
+  authToken: string | null;
+  workflowId?: string;
+}
+
+const statusStyles: Record<string, string> = {
+  running: 'bg-blue-500 animate-pulse',
+  success: 'bg-green-500',
+  error: 'bg-red-500',
+  cancelled: 'bg-gray-400',
+};
+
+const formatTime = (ts: number) => new Date(ts).toLocaleString();
+const formatDuration = (start: number, end?: number) => end ? `${end - start} ms` : '…';
+
+export function ExecutionsPanel({ authToken, workflowId }: ExecutionsPanelProps) {
+  const [executions, setExecutions] = useState<ExecutionRecord[]>([]);
+  const [selected, setSelected] = useState<ExecutionRecord | null>(null);
+  const [expandedNodes, setExpandedNodes] = useState<Set<number>>(new Set());
+  const [filter, setFilter] = useState<'workflow' | 'all'>('workflow');
+  const [replayDefinition, setReplayDefinition] = useState<'current' | 'historical'>('current');
+  const [replayError, setReplayError] = useState<string | null>(null);
+
+  const fetchExecutions = async () => {
+    if (!authToken) return;
+    try {
+      const params = new URLSearchParams({ limit: '100' });
+      if (filter === 'workflow' && workflowId) params.set('workflowId', workflowId);
+      const res = await fetch(`/api/executions?${params}`, {
+        headers: { 'Authorization': `Bearer ${authToken}` }
+      });
+      const data = await res.json() as { executions?: ExecutionRecord[] };
+      setExecutions(data.executions || []);
+    } catch {}
+  };
+
+  useEffect(() => {
+    fetchExecutions();
+    const interval = setInterval(fetchExecutions, 2000);
+    return () => clearInterval(interval);
+  }, [authToken, workflowId, filter]);
+
+  const openExecution = async (runId: string) => {
+    if (!authToken) return;
+    try {
+      const res = await fetch(`/api/executions/${runId}`, {
+        headers: { 'Authorization': `Bearer ${authToken}` }
+      });
+      const data = await res.json() as { success: boolean; execution?: ExecutionRecord };
+      if (data.success && data.execution) {
+        setSelected(data.execution);
+        setExpandedNodes(new Set());
+        setReplayError(null);
+      }
+    } catch {}
+  };
+
+  const replayFrom = async (execution: ExecutionRecord, index: number) => {
+    if (!authToken) return;
+    const nodes = execution.nodes || [];
+    const nodeId = nodes[index]!.nodeId;
+    // Which execution of this node it was, for nodes that ran several times
+    const occurrence = nodes.slice(0, index).filter(n => n.nodeId === nodeId).length;
+    try {
+      const res = await fetch(`/api/executions/${execution.runId}/replay`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${authToken}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ nodeId, occurrence, definition: replayDefinition })
+      });
+      const data = await res.json() as { success: boolean; runId?: string; error?: string };
+      if (data.success && data.runId) {
+        await openExecution(data.runId);
+        fetchExecutions();
+      } else {
+        setReplayError(data.error || 'Replay failed');
+      }
+    } catch (error) {
+      setReplayError((error as Error).message);
+    }
+  };
+
+  // Continue a step workflow run at the step its checkpoint points at
+  const resumeRun = async (execution: ExecutionRecord) => {
+    if (!authToken) return;
+    try {
+      const res = await fetch(`/api/executions/${execution.runId}/resume`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${authToken}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ definition: replayDefinition })
+      });
+      const data = await res.json() as { success: boolean; runId?: string; error?: string };
+      if (data.success && data.runId) {
+        await openExecution(data.runId);
+        fetchExecutions();
+      } else {
+        setReplayError(data.error || 'Resume failed');
+      }
+    } catch (error) {
+      setReplayError((error as Error).message);
+    }
+  };
+
+  const cancelRun = async (runId: string) => {
+    if (!authToken) return;
+    try {
+      await fetch(`/api/executions/${runId}/cancel`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${authToken}` }
+      });
+      fetchExecutions();
+      if (selected?.runId === runId) openExecution(runId);
+    } catch {}
+  };
+
+  const toggleNode = (index: number) => {
+    setExpandedNodes(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index); else next.add(index);
+      return next;
+    });
+  };
+
+  if (selected) {
+    return (
+      <div className="h-full flex flex-col bg-white">
+        <div className="flex items-center gap-2 px-4 py-2 border-b border-gray-200 bg-gray-50 shrink-0">
+          <button
+            onClick={() => setSelected(null)}
+            className="p-1 text-gray-500 hover:text-gray-900 hover:bg-gray-200 rounded transition-colors"
+            title="Back to runs"
+          >
+            <IconArrowLeft size={14} />
+          </button>
+          <span className={`w-2 h-2 rounded-full ${statusStyles[selected.status] || 'bg-gray-400'}`}></span>
+          <div className="text-xs font-semibold text-gray-700 truncate">{selected.workflowName}</div>
+          {selected.status === 'running' && (
+            <button
+              onClick={() => cancelRun(selected.runId)}
+              className="ml-auto p-1 text-gray-500 hover:text-red-600 hover:bg-gray-200 rounded transition-colors"
+              title="Cancel run"
+            >
+              <IconPlayerStop size={14} />
+            </button>
+          )}
+          <div className={`${selected.status === 'running' ? '' : 'ml-auto '}text-[10px] text-gray-400 font-mono`} title={selected.runId}>#{selected.runId.slice(0, 8)}</div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto scrollbar-thin pb-20">
+          <div className="p-3 border-b border-gray-100 text-xs text-gray-600 space-y-1">
+            <div>Trigger: <span className="font-medium text-gray-800">{selected.trigger}</span></div>
+            {selected.replayOf && (
+              <div>
+                {selected.trigger === 'resume' ? 'Resumes' : 'Replay of'}{' '}
+                <button onClick={() => openExecution(selected.replayOf!)} className="font-mono text-blue-600 hover:underline">
+                  #{selected.replayOf.slice(0, 8)}
+                </button>
+              </div>
+            )}
+            <div>Started: {formatTime(selected.startedAt)}</div>
+            <div>Duration: {formatDuration(selected.startedAt, selected.finishedAt)}</div>
+            {selected.error && <div className="text-red-600 break-words">{selected.error}</div>}
+            {selected.status !== 'running' && selected.checkpoint?.nextStep && (
+              <button
+                onClick={() => resumeRun(selected)}
+                className="flex items-center gap-1 px-2 py-1 text-[10px] font-medium text-blue-700 bg-blue-50 hover:bg-blue-100 rounded transition-colors"
+                title={`Continue at step ${selected.checkpoint.nextStep} with the recorded state`}
+              >
+                <IconPlayerPlay size={10} />
+                Resume run
+              </button>
+            )}
+            <div className="flex items-center gap-2 pt-1">
+              <span>Replay against</span>
+              <div className="flex p-0.5 bg-gray-200 rounded">
+                <button
+                  onClick={() => setReplayDefinition('current')}
+                  className={`px-2 py-0.5 text-[10px] font-medium rounded transition-all ${
+                    replayDefinition === 'current' ? 'bg-white shadow-sm' : 'text-gray-600'
+                  }`}
+                >
+                  Current
+                </button>
+                <button
+                  onClick={() => setReplayDefinition('historical')}
+                  className={`px-2 py-0.5 text-[10px] font-medium rounded transition-all ${
+                    replayDefinition === 'historical' ? 'bg-white shadow-sm' : 'text-gray-600'
+                  }`}
+                  title="The workflow definition this run executed"
+                >
+                  Recorded
+                </button>
+              </div>
+            </div>
+            {replayError && <div className="text-red-600 break-words">{replayError}</div>}
+          </div>
+
+          {(selected.nodes || []).map((node: NodeExecutionTrace, i: number) => (
+            <div key={i} className="border-b border-gray-100">
+              <button
+                onClick={() => toggleNode(i)}
+                className="w-full flex items-center gap-2 px-3 py-2 text-left hover:bg-gray-50"
+              >
+                {expandedNodes.has(i) ? <IconChevronDown size={12} /> : <IconChevronRight size={12} />}
+                <span className={`w-1.5 h-1.5 rounded-full ${node.error ? 'bg-red-500' : 'bg-green-500'}`}></span>
+                <span className="text-xs font-medium text-gray-700 truncate">{node.nodeName}</span>
+                <span className="text-[10px] text-gray-400">{node.nodeType}</span>
+                <span className="ml-auto text-[10px] text-gray-400">
+                  {node.outputs.length > 0 ? `→ ${[...new Set(node.outputs.map(o => o.output))].join(', ')}` : 'no output'}
+                </span>
+              </button>
+              {expandedNodes.has(i) && (
+                <div className="px-3 pb-3 space-y-2">
+                  {node.error && (
+                    <div className="text-xs text-red-600 break-words">{node.error}</div>
+                  )}
+                  <button
+                    onClick={() => replayFrom(selected, i)}
+                    className="flex items-center gap-1 px-2 py-1 text-[10px] font-medium text-blue-700 bg-blue-50 hover:bg-blue-100 rounded transition-colors"
+                  >
+                    <IconPlayerPlay size={10} />
+                    Replay from here
+                  </button>
+                  <div>
+                    <div className="text-[10px] font-semibold text-gray-500 mb-1">Input</div>
+                    <pre className="text-[10px] bg-gray-50 border border-gray-200 rounded p-2 overflow-x-auto whitespace-pre-wrap break-words">
+                      {JSON.stringify(node.input, null, 2)}
+                    </pre>
+                  </div>
+                  {node.outputs.map((out, j) => (
+                    <div key={j}>
+                      <div className="text-[10px] font-semibold text-gray-500 mb-1">Output {out.output}</div>
+                      <pre className="text-[10px] bg-gray-50 border border-gray-200 rounded p-2 overflow-x-auto whitespace-pre-wrap break-words">
+                        {JSON.stringify(out.message, null, 2)}
+                      </pre>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col bg-white">
+      <div className="flex items-center justify-between pl-4 pr-8 py-2 border-b border-gray-200 bg-gray-50 shrink-0">
+        <div className="text-xs font-semibold text-gray-700">Executions</div>
+        <div className="flex items-center gap-2">
+          <div className="flex p-0.5 bg-gray-200 rounded">
+            <button
+              onClick={() => setFilter('workflow')}
+              className={`px-2 py-1 text-[10px] font-medium rounded transition-all ${
+                filter === 'workflow' ? 'bg-white shadow-sm' : 'text-gray-600'
+              }`}
+            >
+              Workflow
+            </button>
+            <button
+              onClick={() => setFilter('all')}
+              className={`px-2 py-1 text-[10px] font-medium rounded transition-all ${
+                filter === 'all' ? 'bg-white shadow-sm' : 'text-gray-600'
+              }`}
+            >
+              All
+            </button>
+          </div>
+          <button
+            onClick={fetchExecutions}
+            className="p-1.5 text-gray-500 hover:text-gray-900 hover:bg-gray-200 rounded transition-colors"
+            title="Refresh"
+          >
+            <IconRefresh size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto scrollbar-thin pb-20">
+        {executions.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-full text-gray-400 p-8">
+            <IconHistory size={32} className="mb-2 opacity-20" />
+            <div className="text-sm">No executions recorded</div>
+          </div>
+        ) : (
+          executions.map(execution => (
+            <button
+              key={execution.runId}
+              onClick={() => openExecution(execution.runId)}
+              className="w-full text-left p-2 border-b border-gray-100 hover:bg-blue-50 transition-colors"
+            >
+              <div className="flex items-center gap-2">
+                <span className={`w-2 h-2 rounded-full shrink-0 ${statusStyles[execution.status] || 'bg-gray-400'}`}></span>
+                <span className="text-xs font-medium text-gray-700 truncate">
+                  {filter === 'all' ? execution.workflowName : execution.trigger}
+                </span>
+                <span className="ml-auto text-[10px] text-gray-400 font-mono">#{execution.runId.slice(0, 8)}</span>
+              </div>
+              <div className="flex items-center justify-between mt-0.5 pl-4 text-[10px] text-gray-400">
+                <span>{formatTime(execution.startedAt)}</span>
+                <span>{execution.nodeCount} nodes • {formatDuration(execution.startedAt, execution.finishedAt)}</span>
+              </div>
+              {execution.error && (
+                <div className="pl-4 mt-0.5 text-[10px] text-red-600 truncate">{execution.error}</div>
+              )}
+            </button>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 import { useState } from 'react';
 import { IconX, IconPlayerPlay, IconInfoCircle } from '@tabler/icons-react';
 import { NodeConfigPanel } from './NodeConfigPanel';
-import type { NodeConfig } from '../../types/index';
+import type { NodeConfig, WorkflowDefinition } from '../../types/index';
 
 interface NodeConfigModalProps {
   node: NodeConfig | null;
@@ -9,9 +9,11 @@ interface NodeConfigModalProps {
   onClose: () => void;
   onTest?: (nodeId: string) => void;
   authToken: string | null;
+  workflows?: WorkflowDefinition[];
+  steps?: Array<{ id: string; name: string }>;
 }
 
-export function NodeConfigModal({ node, onUpdate, onClose, onTest, authToken }: NodeConfigModalProps) {
+export function NodeConfigModal({ node, onUpdate, onClose, onTest, authToken, workflows, steps }: NodeConfigModalProps) {
   // Set default input based on node type
   const getDefaultInput = () => {
     if (node?.type === 'ai-generate') {
@@ -199,6 +201,8 @@ export function NodeConfigModal({ node, onUpdate, onClose, onTest, authToken }:
                 node={node}
                 onUpdate={onUpdate}
                 onClose={undefined}
+                workflows={workflows}
+                steps={steps}
               />
             </div>
           </div>
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
-import { nodeDefinitionMap } from '../../nodes/node-definitions.ts';
-import type { NodeConfig } from '../../types/index.ts';
+import { nodeDefinitionMap, getOutputCount } from '../../nodes/node-definitions.ts';
+import type { NodeConfig, WorkflowDefinition } from '../../types/index.ts';
 import Editor from '@monaco-editor/react';
 import { 
   IconPencil, 
@@ -18,9 +18,11 @@ interface NodeConfigPanelProps {
   node: NodeConfig | null;
   onUpdate: (nodeId: string, config: Record<string, any>) => void;
   onClose?: () => void;
+  workflows?: WorkflowDefinition[]; // Choices for 'workflow' fields
+  steps?: Array<{ id: string; name: string }>; // Set when the node is a step of a step workflow
 }
 
-export function NodeConfigPanel({ node, onUpdate, onClose }: NodeConfigPanelProps) {
+export function NodeConfigPanel({ node, onUpdate, onClose, workflows = [], steps }: NodeConfigPanelProps) {
   const [aiConfigs, setAiConfigs] = useState<AIConfig[]>([]);
   const [showNewAIConfig, setShowNewAIConfig] = useState(false);
   const [newAIConfig, setNewAIConfig] = useState<{ name: string; provider: AIProvider; baseUrl: string; apiKey: string; model: string }>({ 
@@ -58,6 +60,11 @@ export function NodeConfigPanel({ node, onUpdate, onClose }: NodeConfigPanelProp
     onUpdate(node.id, { ...node.config, [fieldName]: value });
   };
 
+  // NodeConfig fields outside config, e.g. errorOutput
+  const handleSettingsChange = (settings: Partial<NodeConfig>) => {
+    onUpdate(node.id, { ...node.config, _settings: settings });
+  };
+
   const handleSaveAIConfig = () => {
     if (!newAIConfig.name || !newAIConfig.apiKey || !newAIConfig.model) return;
     const saved = saveAIConfig(newAIConfig);
@@ -193,6 +200,7 @@ export function NodeConfigPanel({ node, onUpdate, onClose }: NodeConfigPanelProp
               <div key={field.name} className="bg-white p-3 rounded-lg border border-gray-200 hover:border-gray-300 transition-colors">
                 <label className="block text-xs font-semibold text-gray-700 mb-1.5">
                   {field.label}
+                  {field.required && <span className="text-red-500"> *</span>}
                 </label>
             
             {field.type === 'string' && (
@@ -228,6 +236,19 @@ export function NodeConfigPanel({ node, onUpdate, onClose }: NodeConfigPanelProp
               </select>
             )}
             
+            {field.type === 'workflow' && (
+              <select
+                value={node.config[field.name] ?? field.default ?? ''}
+                onChange={(e) => handleChange(field.name, e.target.value)}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white"
+              >
+                <option value="">Select a workflow...</option>
+                {workflows.map(w => (
+                  <option key={w.id} value={w.id}>{w.name}</option>
+                ))}
+              </select>
+            )}
+            
             {field.type === 'code' && (
               <div 
                 className="relative border border-gray-300 rounded-md overflow-hidden"
@@ -528,6 +549,180 @@ export function NodeConfigPanel({ node, onUpdate, onClose }: NodeConfigPanelProp
           </div>
         )}
 
+        {/* Error Handling */}
+        {(nodeDef?.inputs || 0) > 0 && (
+          <div className="bg-white p-3 rounded-lg border border-gray-200">
+            <label className="flex items-center gap-2 text-xs font-semibold text-gray-700">
+              <input
+                type="checkbox"
+                checked={node.errorOutput !== undefined}
+                onChange={(e) => handleSettingsChange({ errorOutput: e.target.checked ? getOutputCount(node.type, node.config) : undefined })}
+                className="rounded"
+              />
+              Error output
+            </label>
+            <p className="mt-1 text-[11px] text-gray-500">
+              Route failures to a separate output instead of the workflow's catch nodes
+            </p>
+          </div>
+        )}
+
+        {/* Step Failure Policy */}
+        {steps && node.type !== 'catch' && (
+          <div className="bg-white p-3 rounded-lg border border-gray-200 space-y-2">
+            <label className="block text-xs font-semibold text-gray-700">On failure</label>
+            <select
+              value={typeof node.onFailure === 'object' ? 'goto' : node.onFailure || 'stop'}
+              onChange={(e) => handleSettingsChange({
+                onFailure: e.target.value === 'goto'
+                  ? { goto: steps.find(s => s.id !== node.id)?.id || '' }
+                  : e.target.value === 'stop' ? undefined : 'skip'
+              })}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md bg-white"
+            >
+              <option value="stop">Stop the run</option>
+              <option value="skip">Skip to the next step</option>
+              <option value="goto">Go to step...</option>
+            </select>
+            {typeof node.onFailure === 'object' && (
+              <select
+                value={node.onFailure.goto}
+                onChange={(e) => handleSettingsChange({ onFailure: { goto: e.target.value } })}
+                className="w-full px-2 py-1.5 text-xs border border-gray-300 rounded bg-white"
+              >
+                {steps.filter(s => s.id !== node.id).map(s => (
+                  <option key={s.id} value={s.id}>{s.name}</option>
+                ))}
+              </select>
+            )}
+          </div>
+        )}
+
+        {/* Timeout */}
+        {(nodeDef?.inputs || 0) > 0 && (
+          <div className="bg-white p-3 rounded-lg border border-gray-200">
+            <label className="block text-xs font-semibold text-gray-700 mb-1.5">Timeout (ms)</label>
+            <input
+              type="number"
+              min={0}
+              value={node.timeout ?? ''}
+              onChange={(e) => handleSettingsChange({ timeout: Number(e.target.value) > 0 ? Number(e.target.value) : undefined })}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder="No timeout"
+            />
+          </div>
+        )}
+
+        {/* Retry Policy */}
+        {(nodeDef?.inputs || 0) > 0 && (
+          <div className="bg-white p-3 rounded-lg border border-gray-200 space-y-2">
+            <label className="block text-xs font-semibold text-gray-700">Retry attempts</label>
+            <input
+              type="number"
+              min={1}
+              value={node.retry?.maxAttempts ?? 1}
+              onChange={(e) => {
+                const maxAttempts = Math.max(1, Number(e.target.value));
+                handleSettingsChange({ retry: maxAttempts > 1 ? { ...node.retry, maxAttempts } : undefined });
+              }}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            {node.retry && (
+              <>
+                <div className="grid grid-cols-2 gap-2">
+                  <select
+                    value={node.retry.backoff || 'fixed'}
+                    onChange={(e) => handleSettingsChange({ retry: { ...node.retry!, backoff: e.target.value as 'fixed' | 'exponential' } })}
+                    className="px-2 py-1.5 text-xs border border-gray-300 rounded bg-white"
+                  >
+                    <option value="fixed">Fixed delay</option>
+                    <option value="exponential">Exponential</option>
+                  </select>
+                  <input
+                    type="number"
+                    min={0}
+                    value={node.retry.delayMs ?? 1000}
+                    onChange={(e) => handleSettingsChange({ retry: { ...node.retry!, delayMs: Number(e.target.value) } })}
+                    className="px-2 py-1.5 text-xs border border-gray-300 rounded"
+                    title="Delay (ms)"
+                  />
+                </div>
+                {node.retry.backoff === 'exponential' && (
+                  <input
+                    type="number"
+                    min={0}
+                    value={node.retry.maxDelayMs ?? ''}
+                    onChange={(e) => handleSettingsChange({ retry: { ...node.retry!, maxDelayMs: e.target.value === '' ? undefined : Number(e.target.value) } })}
+                    className="w-full px-2 py-1.5 text-xs border border-gray-300 rounded"
+                    placeholder="Max delay (ms)"
+                  />
+                )}
+                <label className="flex items-center gap-2 text-xs">
+                  <input
+                    type="checkbox"
+                    checked={node.retry.jitter ?? false}
+                    onChange={(e) => handleSettingsChange({ retry: { ...node.retry!, jitter: e.target.checked } })}
+                    className="rounded"
+                  />
+                  <span>Jitter</span>
+                </label>
+                <input
+                  key={node.id}
+                  type="text"
+                  defaultValue={(node.retry.retryOn || []).join(', ')}
+                  onBlur={(e) => handleSettingsChange({
+                    retry: { ...node.retry!, retryOn: e.target.value.split(',').map(p => p.trim()).filter(Boolean) }
+                  })}
+                  className="w-full px-2 py-1.5 text-xs border border-gray-300 rounded"
+                  placeholder="Retry on (e.g. ECONNRESET, timeout) - empty retries all errors"
+                />
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Concurrency Limit */}
+        {(nodeDef?.inputs || 0) > 0 && (
+          <div className="bg-white p-3 rounded-lg border border-gray-200 space-y-2">
+            <label className="block text-xs font-semibold text-gray-700">Max concurrent executions</label>
+            <input
+              type="number"
+              min={0}
+              value={node.concurrency?.max ?? ''}
+              onChange={(e) => {
+                const max = Number(e.target.value);
+                handleSettingsChange({ concurrency: max > 0 ? { ...node.concurrency, max } : undefined });
+              }}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder="No limit"
+            />
+            {node.concurrency && (
+              <div className="grid grid-cols-2 gap-2">
+                <input
+                  type="number"
+                  min={0}
+                  value={node.concurrency.maxQueue ?? ''}
+                  onChange={(e) => handleSettingsChange({
+                    concurrency: { ...node.concurrency!, maxQueue: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)) }
+                  })}
+                  className="px-2 py-1.5 text-xs border border-gray-300 rounded"
+                  placeholder="Queue: no limit"
+                  title="Max queued"
+                />
+                <select
+                  value={node.concurrency.overflow || 'reject'}
+                  onChange={(e) => handleSettingsChange({ concurrency: { ...node.concurrency!, overflow: e.target.value as 'drop' | 'reject' } })}
+                  className="px-2 py-1.5 text-xs border border-gray-300 rounded bg-white"
+                  title="When the queue is full"
+                >
+                  <option value="reject">Reject (error)</option>
+                  <option value="drop">Drop message</option>
+                </select>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Node Information - Compact */}
         <div className="pt-3 border-t border-gray-200">
           <div className="flex flex-wrap gap-2 text-[10px]">
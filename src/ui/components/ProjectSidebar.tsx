@@ -13,6 +13,8 @@ import {
   IconCode,
   IconBug,
   IconClock,
+  IconTrafficLights,
+  IconBroadcast,
   IconFilter,
   IconSwitchHorizontal,
   IconServer,
@@ -49,15 +51,18 @@ interface ProjectSidebarProps {
 const nodeIcons: Record<string, React.ReactNode> = {
   'http-in': <IconWorld size={16} />,
   'mqtt-in': <IconDeviceAnalytics size={16} />,
+  'sse-in': <IconBroadcast size={16} />,
   'debug': <IconBug size={16} />,
   'http-response': <IconWorld size={16} />,
   'mqtt-out': <IconDeviceAnalytics size={16} />,
+  'sse-out': <IconBroadcast size={16} />,
   'function': <IconCode size={16} />,
   'filter': <IconFilter size={16} />,
   'transform': <IconTransform size={16} />,
   'template': <IconTemplate size={16} />,
   'http-request': <IconWorld size={16} />,
   'delay': <IconClock size={16} />,
+  'rate-limit': <IconTrafficLights size={16} />,
   'split': <IconSwitchHorizontal size={16} />,
   'join': <IconSwitchHorizontal size={16} />,
   'inject': <IconPlayerPlay size={16} />,
@@ -1,12 +1,14 @@
-import { memo } from 'react';
-import { Handle, Position } from '@xyflow/react';
-import { nodeDefinitionMap } from '../../nodes/node-definitions.ts';
+import { memo, useEffect } from 'react';
+import { Handle, Position, useUpdateNodeInternals } from '@xyflow/react';
+import { nodeDefinitionMap, getOutputCount } from '../../nodes/node-definitions.ts';
 import { 
   IconWorld, 
   IconDeviceAnalytics, 
   IconCode, 
   IconBug,
   IconClock,
+  IconTrafficLights,
+  IconBroadcast,
   IconFilter,
   IconSwitchHorizontal,
   IconServer,
@@ -16,7 +18,12 @@ import {
   IconX,
   IconRobot,
   IconRepeat,
-  IconTable
+  IconTable,
+  IconLifebuoy,
+  IconArrowsSplit,
+  IconBox,
+  IconArrowBarRight,
+  IconArrowBarToRight
 } from '@tabler/icons-react';
 
 interface WorkflowNodeProps {
@@ -29,6 +36,7 @@ interface WorkflowNodeProps {
     onDelete?: (nodeId: string) => void;
     isDeployed?: boolean;
     isExecuting?: boolean;
+    settings?: { errorOutput?: number }; // NodeConfig fields besides config and wires
   };
   selected?: boolean;
 }
@@ -37,18 +45,26 @@ interface WorkflowNodeProps {
 const nodeIcons: Record<string, React.ReactNode> = {
   'http-in': <IconWorld size={16} />,
   'mqtt-in': <IconDeviceAnalytics size={16} />,
+  'sse-in': <IconBroadcast size={16} />,
   
   'debug': <IconBug size={16} />,
   'http-response': <IconWorld size={16} />,
   'mqtt-out': <IconDeviceAnalytics size={16} />,
+  'sse-out': <IconBroadcast size={16} />,
   
   'function': <IconCode size={16} />,
   'filter': <IconFilter size={16} />,
+  'switch': <IconArrowsSplit size={16} />,
+  'catch': <IconLifebuoy size={16} />,
+  'subflow': <IconBox size={16} />,
+  'subflow-in': <IconArrowBarRight size={16} />,
+  'subflow-out': <IconArrowBarToRight size={16} />,
   'transform': <IconTransform size={16} />,
   'template': <IconTemplate size={16} />,
   
   'http-request': <IconWorld size={16} />,
   'delay': <IconClock size={16} />,
+  'rate-limit': <IconTrafficLights size={16} />,
   'split': <IconSwitchHorizontal size={16} />,
   'join': <IconSwitchHorizontal size={16} />,
   
@@ -73,8 +89,15 @@ function WorkflowNode({ id, data, selected }: WorkflowNodeProps) {
   const nodeDef = nodeDefinitionMap.get(data.type);
   const color = nodeDef?.color || '#6b7280';
   const inputs = nodeDef?.inputs || 0;
-  const outputs = nodeDef?.outputs || 0;
+  const outputs = getOutputCount(data.type, data.config);
   const isInject = data.type === 'inject' || data.type === 'trigger';
+  const errorOutput = data.settings?.errorOutput;
+
+  // React Flow caches handle positions; refresh them when the handle count changes
+  const updateNodeInternals = useUpdateNodeInternals();
+  useEffect(() => {
+    updateNodeInternals(id);
+  }, [id, outputs, errorOutput, updateNodeInternals]);
 
   const handleInjectClick = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -169,11 +192,22 @@ function WorkflowNode({ id, data, selected }: WorkflowNodeProps) {
           id={`output-${i}`}
           className="!w-2.5 !h-2.5 !border-2 !border-white !bg-gray-400 !-bottom-1.5 transition-colors hover:!bg-blue-500"
           style={{
-            left: outputs === 1 ? '50%' : `${35 + (i * 30)}%`,
+            left: outputs === 1 ? '50%' : `${((i + 1) / (outputs + 1)) * 100}%`,
             transform: 'translateX(-50%)'
           }}
         />
       ))}
+
+      {/* Error output handle */}
+      {errorOutput !== undefined && (
+        <Handle
+          type="source"
+          position={Position.Right}
+          id={`output-${errorOutput}`}
+          className="!w-2.5 !h-2.5 !border-2 !border-white !bg-red-400 !-right-1.5 transition-colors hover:!bg-red-600"
+          title="Error output"
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,126 @@
+import type { NodeConfig, WorkflowDefinition } from "../types/index.ts";
+
+// Number of outputs a subflow node gets: the highest subflow-out port
+export function subflowOutputCount(workflow: WorkflowDefinition): number {
+  const ports = workflow.nodes
+    .filter(n => n.type === 'subflow-out')
+    .map(n => Math.max(Number(n.config.port) || 1, 1));
+  return Math.max(1, ...ports);
+}
+
+// Attach the workflows referenced by subflow nodes, directly or through other
+// subflows, so a deployed workflow carries everything it runs
+export function bundleSubflows(workflow: WorkflowDefinition, available: WorkflowDefinition[]): WorkflowDefinition {
+  const byId = new Map(available.map(w => [w.id, w]));
+  const bundled = new Map<string, WorkflowDefinition>();
+
+  const visit = (current: WorkflowDefinition) => {
+    for (const node of current.nodes) {
+      if (node.type !== 'subflow') continue;
+      const id = node.config.workflowId;
+      const definition = byId.get(id);
+      if (!definition || id === workflow.id || bundled.has(id)) continue;
+      const { subflows, ...rest } = definition;
+      bundled.set(id, rest);
+      visit(rest);
+    }
+  };
+  visit(workflow);
+
+  const { subflows, ...rest } = workflow;
+  return bundled.size > 0 ? { ...rest, subflows: [...bundled.values()] } : rest;
+}
+
+// Update the output count of subflow nodes from the workflows they reference
+export function refreshSubflowOutputs(workflow: WorkflowDefinition, available: WorkflowDefinition[]): WorkflowDefinition {
+  const byId = new Map(available.map(w => [w.id, w]));
+  return {
+    ...workflow,
+    nodes: workflow.nodes.map(node => {
+      const target = node.type === 'subflow' ? byId.get(node.config.workflowId) : undefined;
+      return target ? { ...node, config: { ...node.config, outputs: subflowOutputCount(target) } } : node;
+    })
+  };
+}
+
+// Move the selected nodes of a workflow into a new workflow and replace them
+// with a subflow node. Wires entering the selection start at one subflow-in
+// node; each node output wired out of the selection gets its own port.
+export function collapseIntoSubflow(
+  workflow: WorkflowDefinition,
+  selected: Set<string>,
+  subflow: { id: string; name: string; nodeId: string }
+): { parent: WorkflowDefinition; subflow: WorkflowDefinition } {
+  const inside = workflow.nodes.filter(n => selected.has(n.id));
+  const outside = workflow.nodes.filter(n => !selected.has(n.id));
+
+  // Nodes of the selection that receive messages from outside it
+  const entries = new Set(outside.flatMap(n => n.wires.flat()).filter(id => selected.has(id)));
+
+  // Each (node, output) wired out of the selection becomes a port
+  const ports: Array<{ nodeId: string; output: number; targets: string[] }> = [];
+  for (const node of inside) {
+    node.wires.forEach((targets, output) => {
+      const external = targets.filter(id => !selected.has(id));
+      if (external.length > 0) ports.push({ nodeId: node.id, output, targets: external });
+    });
+  }
+
+  const positions = inside.map(n => n.position ?? { x: 0, y: 0 });
+  const minX = Math.min(...positions.map(p => p.x));
+  const maxX = Math.max(...positions.map(p => p.x));
+  const midY = positions.reduce((sum, p) => sum + p.y, 0) / positions.length;
+
+  const inNode: NodeConfig = {
+    id: 'subflow_in',
+    type: 'subflow-in',
+    name: 'Subflow In',
+    config: {},
+    wires: [[...entries]],
+    position: { x: minX - 250, y: midY }
+  };
+  const outNodes: NodeConfig[] = ports.map((_, i) => ({
+    id: `subflow_out_${i + 1}`,
+    type: 'subflow-out',
+    name: `Subflow Out ${i + 1}`,
+    config: { port: i + 1 },
+    wires: [[]],
+    position: { x: maxX + 250, y: midY + (i - (ports.length - 1) / 2) * 120 }
+  }));
+
+  const innerNodes = inside.map(node => ({
+    ...node,
+    wires: node.wires.map((targets, output) => {
+      const port = ports.findIndex(p => p.nodeId === node.id && p.output === output);
+      const internal = targets.filter(id => selected.has(id));
+      return port >= 0 ? [...internal, outNodes[port]!.id] : internal;
+    })
+  }));
+
+  const subflowNode: NodeConfig = {
+    id: subflow.nodeId,
+    type: 'subflow',
+    name: subflow.name,
+    config: { workflowId: subflow.id, outputs: Math.max(ports.length, 1) },
+    wires: ports.length > 0 ? ports.map(p => p.targets) : [[]],
+    position: { x: (minX + maxX) / 2, y: midY }
+  };
+
+  const outerNodes = outside.map(node => ({
+    ...node,
+    wires: node.wires.map(targets => {
+      const kept = targets.filter(id => !selected.has(id));
+      return kept.length < targets.length ? [...kept, subflowNode.id] : kept;
+    })
+  }));
+
+  return {
+    parent: { ...workflow, nodes: [...outerNodes, subflowNode] },
+    subflow: {
+      id: subflow.id,
+      name: subflow.name,
+      type: 'flow',
+      nodes: [inNode, ...innerNodes, ...outNodes]
+    }
+  };
+}
@@ -315,7 +315,7 @@ export const templateWorkflows: WorkflowDefinition[] = [
       
       // === RIGHT COLUMN: HTTP Server + MQTT Flow ===
       // HTTP In listener
-      { id: 'http_in1', type: 'http-in', name: 'HTTP Endpoint', config: { method: 'POST', path: '/api/data' }, wires: [['func2']], position: { x: 450, y: 50 } },
+      { id: 'http_in1', type: 'http-in', name: 'HTTP Endpoint', config: { method: 'POST', path: '/api/data', respond: 'http-response' }, wires: [['func2']], position: { x: 450, y: 50 } },
       
       // Process HTTP request
       { id: 'func2', type: 'function', name: 'Process Request', config: { code: 'log("HTTP Request received");\nmsg.payload.receivedAt = Date.now();\nreturn msg;' }, wires: [['http_resp1', 'mqtt_out1']], position: { x: 450, y: 150 } },
@@ -352,8 +352,8 @@ export const templateWorkflows: WorkflowDefinition[] = [
     type: 'flow',
     nodes: [
       // Publisher flow (left column)
-      { id: '1', type: 'inject', name: 'Publish Message', config: { payload: { sensor: 'temp', value: 25.5 } }, wires: [['2']], position: { x: 100, y: 50 } },
-      { id: '2', type: 'mqtt-out', name: 'Publish', config: { topic: 'sensors/temp' }, wires: [['3']], position: { x: 100, y: 150 } },
+      { id: '1', type: 'inject', name: 'Publish Message', config: { payload: { sensor: 'temp', value: 25.5 } }, wires: [['2', '3']], position: { x: 100, y: 50 } },
+      { id: '2', type: 'mqtt-out', name: 'Publish', config: { topic: 'sensors/temp' }, wires: [[]], position: { x: 100, y: 150 } },
       { id: '3', type: 'debug', name: 'Sent', config: {}, wires: [[]], position: { x: 100, y: 250 } },
       // Subscriber flow (right column)
       { id: '4', type: 'mqtt-in', name: 'Subscribe', config: { topic: 'sensors/#' }, wires: [['5']], position: { x: 350, y: 50 } },
@@ -398,8 +398,8 @@ export const templateWorkflows: WorkflowDefinition[] = [
     name: 'Timed Sequence',
     type: 'flow',
     nodes: [
-      { id: '1', type: 'inject', name: 'Start', config: { payload: { step: 1 } }, wires: [['2']], position: { x: 200, y: 50 } },
-      { id: '2', type: 'debug', name: 'Step 1', config: {}, wires: [['3']], position: { x: 200, y: 150 } },
+      { id: '1', type: 'inject', name: 'Start', config: { payload: { step: 1 } }, wires: [['2', '3']], position: { x: 200, y: 50 } },
+      { id: '2', type: 'debug', name: 'Step 1', config: {}, wires: [[]], position: { x: 200, y: 150 } },
       { id: '3', type: 'delay', name: 'Wait 1s', config: { delay: 1000 }, wires: [['4']], position: { x: 200, y: 250 } },
       { id: '4', type: 'function', name: 'Step 2', config: { code: 'msg.payload.step = 2;\nlog("Step 2");\nreturn msg;' }, wires: [['5']], position: { x: 200, y: 350 } },
       { id: '5', type: 'debug', name: 'Done', config: {}, wires: [[]], position: { x: 200, y: 450 } }
@@ -654,7 +654,7 @@ export const defaultProject: Project = {
         { id: 'http_req1', type: 'http-request', name: 'Call API', config: { method: 'GET', url: 'https://jsonplaceholder.typicode.com/posts/1' }, wires: [['debug_final']], position: { x: 100, y: 850 } },
         { id: 'debug_final', type: 'debug', name: 'Final Output', config: { output: 'payload' }, wires: [[]], position: { x: 100, y: 950 } },
         // === RIGHT COLUMN: HTTP Server + MQTT ===
-        { id: 'http_in1', type: 'http-in', name: 'HTTP Endpoint', config: { method: 'POST', path: '/api/data' }, wires: [['func2']], position: { x: 450, y: 50 } },
+        { id: 'http_in1', type: 'http-in', name: 'HTTP Endpoint', config: { method: 'POST', path: '/api/data', respond: 'http-response' }, wires: [['func2']], position: { x: 450, y: 50 } },
         { id: 'func2', type: 'function', name: 'Process Request', config: { code: 'log("HTTP Request received");\nmsg.payload.receivedAt = Date.now();\nreturn msg;' }, wires: [['http_resp1', 'mqtt_out1']], position: { x: 450, y: 150 } },
         { id: 'http_resp1', type: 'http-response', name: 'Send Response', config: { statusCode: 200 }, wires: [[]], position: { x: 380, y: 250 } },
         { id: 'mqtt_out1', type: 'mqtt-out', name: 'Publish Event', config: { topic: 'events/http' }, wires: [[]], position: { x: 520, y: 250 } },
@@ -692,8 +692,8 @@ export const defaultProject: Project = {
       name: 'Demo: MQTT Pub/Sub',
       type: 'flow',
       nodes: [
-        { id: '1', type: 'inject', name: 'Publish', config: { payload: { sensor: 'temp', value: 25.5 } }, wires: [['2']], position: { x: 100, y: 50 } },
-        { id: '2', type: 'mqtt-out', name: 'Send to MQTT', config: { topic: 'sensors/temp' }, wires: [['3']], position: { x: 100, y: 150 } },
+        { id: '1', type: 'inject', name: 'Publish', config: { payload: { sensor: 'temp', value: 25.5 } }, wires: [['2', '3']], position: { x: 100, y: 50 } },
+        { id: '2', type: 'mqtt-out', name: 'Send to MQTT', config: { topic: 'sensors/temp' }, wires: [[]], position: { x: 100, y: 150 } },
         { id: '3', type: 'debug', name: 'Sent', config: {}, wires: [[]], position: { x: 100, y: 250 } },
         { id: '4', type: 'mqtt-in', name: 'Subscribe', config: { topic: 'sensors/#' }, wires: [['5']], position: { x: 300, y: 50 } },
         { id: '5', type: 'function', name: 'Process', config: { code: 'log("Received: " + JSON.stringify(msg.payload));\nreturn msg;' }, wires: [['6']], position: { x: 300, y: 150 } },
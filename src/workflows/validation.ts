@@ -0,0 +1,221 @@
+import { nodeDefinitionMap, getOutputCount } from "../nodes/node-definitions.ts";
+import type { NodeConfig, WorkflowDefinition, WorkflowDiagnostic } from "../types/index.ts";
+
+export interface ValidationOptions {
+  knownTypes: Set<string>; // Node types the engine can execute
+  deployed?: WorkflowDefinition[]; // Other deployed workflows, checked for conflicting http-in routes
+}
+
+// Check a workflow definition for problems the engine would otherwise skip
+// over silently or only report at runtime
+export function validateWorkflow(workflow: WorkflowDefinition, options: ValidationOptions): WorkflowDiagnostic[] {
+  // Deploys take any JSON, so the shape comes first
+  if (typeof workflow?.id !== 'string' || !Array.isArray(workflow.nodes)) {
+    return [{ severity: 'error', code: 'invalid-definition', message: 'A workflow needs an id and a nodes array' }];
+  }
+  const malformed = workflow.nodes.flatMap((node, i): WorkflowDiagnostic[] =>
+    typeof node?.id === 'string' && typeof node.type === 'string' && Array.isArray(node.wires) && node.wires.every(Array.isArray)
+      ? []
+      : [{ severity: 'error', code: 'invalid-definition', message: `Node ${i + 1} needs an id, a type and wires (an array of arrays)`, nodeId: node?.id }]
+  );
+  if (malformed.length > 0) return malformed;
+
+  const diagnostics: WorkflowDiagnostic[] = [];
+  const nodeIds = new Set<string>();
+
+  for (const node of workflow.nodes) {
+    if (nodeIds.has(node.id)) {
+      diagnostics.push({ severity: 'error', code: 'duplicate-id', message: `Node id ${node.id} is used more than once`, nodeId: node.id });
+    }
+    nodeIds.add(node.id);
+  }
+
+  for (const node of workflow.nodes) {
+    if (!options.knownTypes.has(node.type)) {
+      diagnostics.push({ severity: 'error', code: 'unknown-type', message: `${node.name} has unknown type ${node.type}`, nodeId: node.id });
+    }
+    checkWires(node, nodeIds, diagnostics);
+    checkRequiredFields(node, diagnostics);
+  }
+
+  // Step workflows run in node order, so their wires don't decide what runs
+  if (workflow.type !== 'step') {
+    checkReachability(workflow, diagnostics);
+    checkCycles(workflow, diagnostics, workflow.allowCycles ? 'warning' : 'error');
+  }
+  checkRoutes(workflow, options.deployed ?? [], diagnostics);
+
+  return diagnostics;
+}
+
+// Outputs a node can send on, including its error output; unknown types
+// can't be checked
+function outputCount(node: NodeConfig): number {
+  return nodeDefinitionMap.has(node.type)
+    ? getOutputCount(node.type, node.config) + (node.errorOutput !== undefined ? 1 : 0)
+    : Infinity;
+}
+
+function checkWires(node: NodeConfig, nodeIds: Set<string>, diagnostics: WorkflowDiagnostic[]) {
+  const outputs = outputCount(node);
+
+  node.wires.forEach((targets, output) => {
+    if (output >= outputs && targets.length > 0) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'invalid-output',
+        message: `${node.name} has wires on output ${output + 1} but only ${outputs} output${outputs === 1 ? '' : 's'}`,
+        nodeId: node.id
+      });
+    }
+    for (const target of targets) {
+      if (!nodeIds.has(target)) {
+        diagnostics.push({ severity: 'error', code: 'dangling-wire', message: `${node.name} is wired to missing node ${target}`, nodeId: node.id });
+      }
+    }
+  });
+}
+
+function checkRequiredFields(node: NodeConfig, diagnostics: WorkflowDiagnostic[]) {
+  for (const field of nodeDefinitionMap.get(node.type)?.configFields ?? []) {
+    const value = node.config?.[field.name];
+    if (field.required && (value === undefined || value === null || value === '')) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'missing-config',
+        message: `${node.name} requires ${field.label}`,
+        nodeId: node.id,
+        field: field.name
+      });
+    }
+  }
+}
+
+// Nodes no message can reach: entry nodes are the ones without inputs
+// (inject, http-in, catch...), or all nodes without incoming wires when the
+// workflow has none, like executeWorkflow picks its triggers
+function checkReachability(workflow: WorkflowDefinition, diagnostics: WorkflowDiagnostic[]) {
+  const byId = new Map(workflow.nodes.map(n => [n.id, n]));
+  const targets = new Set(workflow.nodes.flatMap(n => n.wires.flat()));
+  let entries = workflow.nodes.filter(n => nodeDefinitionMap.get(n.type)?.inputs === 0);
+  if (entries.length === 0) entries = workflow.nodes.filter(n => !targets.has(n.id));
+
+  const reached = new Set(entries.map(n => n.id));
+  for (const id of reached) {
+    const node = byId.get(id);
+    node?.wires.slice(0, outputCount(node)).flat().forEach(target => reached.add(target));
+  }
+
+  for (const node of workflow.nodes) {
+    if (!reached.has(node.id)) {
+      diagnostics.push({ severity: 'warning', code: 'unreachable', message: `${node.name} can never receive a message`, nodeId: node.id });
+    }
+  }
+}
+
+// Wire loops, reported once per strongly connected group of nodes
+function checkCycles(workflow: WorkflowDefinition, diagnostics: WorkflowDiagnostic[], severity: WorkflowDiagnostic['severity']) {
+  for (const cycle of findCycles(workflow.nodes)) {
+    const names = cycle.map(id => workflow.nodes.find(n => n.id === id)?.name ?? id);
+    diagnostics.push({
+      severity,
+      code: 'cycle',
+      message: `Wires form a loop: ${names.join(' → ')}`,
+      nodeId: cycle[0],
+      nodeIds: cycle
+    });
+  }
+}
+
+// Tarjan's algorithm; a group is a cycle when it has several nodes or a
+// node wired to itself
+function findCycles(nodes: NodeConfig[]): string[][] {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const index = new Map<string, number>();
+  const lowlink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+
+  const visit = (id: string) => {
+    index.set(id, index.size);
+    lowlink.set(id, index.get(id)!);
+    stack.push(id);
+    onStack.add(id);
+
+    for (const target of byId.get(id)!.wires.flat()) {
+      if (!byId.has(target)) continue;
+      if (!index.has(target)) {
+        visit(target);
+        lowlink.set(id, Math.min(lowlink.get(id)!, lowlink.get(target)!));
+      } else if (onStack.has(target)) {
+        lowlink.set(id, Math.min(lowlink.get(id)!, index.get(target)!));
+      }
+    }
+
+    if (lowlink.get(id) === index.get(id)) {
+      const group: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        group.unshift(member);
+      } while (member !== id);
+      if (group.length > 1 || byId.get(id)!.wires.flat().includes(id)) cycles.push(group);
+    }
+  };
+
+  for (const node of nodes) {
+    if (!index.has(node.id)) visit(node.id);
+  }
+  return cycles;
+}
+
+// Two http-in nodes on the same method and path, in this workflow or
+// against another deployed one, would shadow each other
+function checkRoutes(workflow: WorkflowDefinition, deployed: WorkflowDefinition[], diagnostics: WorkflowDiagnostic[]) {
+  const routes = new Map<string, NodeConfig[]>();
+  for (const node of workflow.nodes.filter(n => n.type === 'http-in')) {
+    const key = routeMatchKey(node);
+    routes.set(key, [...(routes.get(key) ?? []), node]);
+  }
+
+  for (const [key, nodes] of routes) {
+    const route = routeKey(nodes[0]!);
+    if (nodes.length > 1) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'duplicate-route',
+        message: `${route} is handled by ${nodes.length} http-in nodes`,
+        nodeId: nodes[0]!.id,
+        nodeIds: nodes.map(n => n.id)
+      });
+    }
+    for (const other of deployed) {
+      if (other.id === workflow.id) continue;
+      if (other.nodes.some(n => n.type === 'http-in' && routeMatchKey(n) === key)) {
+        diagnostics.push({
+          severity: 'error',
+          code: 'duplicate-route',
+          message: `${route} is already handled by deployed workflow ${other.name}`,
+          nodeId: nodes[0]!.id,
+          nodeIds: nodes.map(n => n.id)
+        });
+      }
+    }
+  }
+}
+
+// Same defaults as the http-in executor
+function routeKey(node: NodeConfig): string {
+  const { path = '/webhook', method = 'POST' } = node.config ?? {};
+  return `${String(method).toUpperCase()} ${path}`;
+}
+
+// Routes that match the same requests: parameter names don't matter and the
+// trailing slash is optional, as in the http-in router
+function routeMatchKey(node: NodeConfig): string {
+  const { path = '/webhook', method = 'POST' } = node.config ?? {};
+  const normalized = String(path).split('/').map(segment => segment.startsWith(':') ? ':' : segment).join('/');
+  return `${String(method).toUpperCase()} ${normalized.replace(/(.)\/$/, '$1')}`;
+}
@@ -1,6 +1,13 @@
 import { describe, it, expect, beforeEach } from "bun:test";
+import { createHmac } from "node:crypto";
 import { WorkflowEngine } from "../src/WorkflowEngine.ts";
-import type { WorkflowDefinition } from "../src/types/index.ts";
+import { WorkflowDatabase } from "../src/database/index.ts";
+import { ExecutionHistory } from "../src/executions/index.ts";
+import { ContextStore, SqliteContextBackend } from "../src/context/index.ts";
+import { HttpInService, MqttService, registerRuntimeNodes, clearRuntimeSubscriptions } from "../src/nodes/runtime-nodes.ts";
+import { AIMemoryManager } from "../src/nodes/ai-memory.ts";
+import { bundleSubflows, collapseIntoSubflow, subflowOutputCount } from "../src/workflows/subflows.ts";
+import type { StepCheckpoint, WorkflowDefinition } from "../src/types/index.ts";
 
 describe("WorkflowEngine", () => {
   let engine: WorkflowEngine;
@@ -317,4 +324,1774 @@ describe("WorkflowEngine", () => {
     // Check that the template was rendered
     expect(logs.some(log => log.includes('Hello World! Count: 42'))).toBe(true);
   });
-});
\ No newline at end of file
+
+  it("should give concurrent executions their own run ids", async () => {
+    const testWorkflow: WorkflowDefinition = {
+      id: 'run-id-test',
+      name: 'Run Id Test',
+      type: 'flow',
+      nodes: [
+        {
+          id: '1',
+          type: 'inject',
+          name: 'Start',
+          config: {},
+          wires: [['2']]
+        },
+        {
+          id: '2',
+          type: 'delay',
+          name: 'Delay',
+          config: { delay: 20 },
+          wires: [['3']]
+        },
+        {
+          id: '3',
+          type: 'debug',
+          name: 'Result',
+          config: { output: 'full' },
+          wires: [[]]
+        }
+      ]
+    };
+
+    engine.loadWorkflow(testWorkflow);
+
+    const originalLog = console.log;
+    console.log = () => {};
+
+    const started: Array<{ nodeId: string; workflowId: string; runId: string }> = [];
+    engine.on('nodeStart', (nodeId: string, _name: string, _type: string, workflowId: string, runId: string) => {
+      started.push({ nodeId, workflowId, runId });
+    });
+    const logged: any[] = [];
+    engine.on('log', (_message: string, info: any) => logged.push(info));
+
+    const [runA, runB] = await Promise.all([
+      engine.executeWorkflow('run-id-test', { run: 'a' }),
+      engine.executeWorkflow('run-id-test', { run: 'b' })
+    ]);
+
+    console.log = originalLog;
+
+    expect(runA).not.toBe(runB);
+    expect(started.filter(s => s.runId === runA).map(s => s.nodeId)).toEqual(['1', '2', '3']);
+    expect(started.filter(s => s.runId === runB).map(s => s.nodeId)).toEqual(['1', '2', '3']);
+    expect(started.every(s => s.workflowId === 'run-id-test')).toBe(true);
+    expect(logged.some(info => info.runId === runA && info.nodeId === '3')).toBe(true);
+  });
+
+  it("should record run history with per-node snapshots", async () => {
+    const testWorkflow: WorkflowDefinition = {
+      id: 'history-test',
+      name: 'History Test',
+      type: 'flow',
+      nodes: [
+        {
+          id: '1',
+          type: 'inject',
+          name: 'Start',
+          config: { payload: { value: 5 } },
+          wires: [['2']]
+        },
+        {
+          id: '2',
+          type: 'filter',
+          name: 'Positive?',
+          config: { condition: 'msg.payload.value > 0' },
+          wires: [['3'], []]
+        },
+        {
+          id: '3',
+          type: 'transform',
+          name: 'Mark',
+          config: { operation: 'set', field: 'checked', value: true },
+          wires: [[]]
+        }
+      ]
+    };
+
+    const history = new ExecutionHistory(new WorkflowDatabase(':memory:'));
+    history.attach(engine);
+    engine.loadWorkflow(testWorkflow);
+
+    const originalLog = console.log;
+    console.log = () => {};
+    const runId = await engine.executeWorkflow('history-test');
+    console.log = originalLog;
+
+    const [summary] = await history.list({ workflowId: 'history-test' });
+    expect(summary?.runId).toBe(runId);
+    expect(summary?.status).toBe('success');
+    expect(summary?.nodeCount).toBe(3);
+
+    const execution = await history.get(runId);
+    expect(execution?.workflow?.id).toBe('history-test');
+    const filterNode = execution?.nodes?.find(n => n.nodeId === '2');
+    expect(filterNode?.input.payload).toEqual({ value: 5 });
+    expect(filterNode?.outputs.map(o => o.output)).toEqual([0]);
+    // The snapshot is taken before the transform mutates the payload
+    expect(execution?.nodes?.find(n => n.nodeId === '3')?.input.payload).toEqual({ value: 5 });
+  });
+
+  it("should replay a run from a node against current or recorded definitions", async () => {
+    const testWorkflow: WorkflowDefinition = {
+      id: 'replay-test',
+      name: 'Replay Test',
+      type: 'flow',
+      nodes: [
+        {
+          id: '1',
+          type: 'inject',
+          name: 'Start',
+          config: { payload: { value: 5 } },
+          wires: [['2']]
+        },
+        {
+          id: '2',
+          type: 'transform',
+          name: 'Mark',
+          config: { operation: 'set', field: 'version', value: 1 },
+          wires: [[]]
+        }
+      ]
+    };
+
+    const history = new ExecutionHistory(new WorkflowDatabase(':memory:'));
+    history.attach(engine);
+    engine.loadWorkflow(testWorkflow);
+
+    const originalLog = console.log;
+    console.log = () => {};
+    const runId = await engine.executeWorkflow('replay-test');
+
+    // Edit the workflow after the run
+    engine.loadWorkflow({
+      ...testWorkflow,
+      nodes: [testWorkflow.nodes[0]!, { ...testWorkflow.nodes[1]!, config: { operation: 'set', field: 'version', value: 2 } }]
+    });
+
+    const currentRunId = await history.replay(runId, { nodeId: '2' });
+    const recordedRunId = await history.replay(runId, { nodeId: '2', definition: 'historical' });
+    const fromSourceRunId = await history.replay(runId, { nodeId: '1' });
+    console.log = originalLog;
+
+    const outputOf = async (id: string) =>
+      (await history.get(id))?.nodes?.find(n => n.nodeId === '2')?.outputs[0]?.message.payload;
+
+    expect(await outputOf(currentRunId)).toEqual({ value: 5, version: 2 });
+    expect(await outputOf(recordedRunId)).toEqual({ value: 5, version: 1 });
+    expect(await outputOf(fromSourceRunId)).toEqual({ value: 5, version: 2 });
+
+    const replay = await history.get(currentRunId);
+    expect(replay?.trigger).toBe('replay');
+    expect(replay?.replayOf).toBe(runId);
+  });
+
+  it("should restore binary payloads when reading and replaying recorded runs", async () => {
+    engine.registerNodeType('bytes', async (_msg, ctx) => {
+      ctx.send({ payload: new Uint8Array([0, 1, 254, 255]), metadata: { raw: Buffer.from('hi') } });
+    });
+    const received: any[] = [];
+    engine.registerNodeType('record', async (msg) => { received.push(msg); });
+    const history = new ExecutionHistory(new WorkflowDatabase(':memory:'));
+    history.attach(engine);
+    engine.loadWorkflow({
+      id: 'binary-test',
+      name: 'Binary Test',
+      type: 'flow',
+      nodes: [
+        { id: '1', type: 'bytes', name: 'Bytes', config: {}, wires: [['2']] },
+        { id: '2', type: 'record', name: 'Record', config: {}, wires: [] }
+      ]
+    });
+
+    const originalLog = console.log;
+    console.log = () => {};
+    const runId = await engine.executeWorkflow('binary-test');
+    const execution = await history.get(runId);
+    await history.replay(runId, { nodeId: '2' });
+    console.log = originalLog;
+
+    const input = execution?.nodes?.find(n => n.nodeId === '2')?.input;
+    expect(input?.payload).toBeInstanceOf(Uint8Array);
+    expect([...input?.payload]).toEqual([0, 1, 254, 255]);
+    expect(input?.metadata?.raw.toString()).toBe('hi');
+    expect(received).toHaveLength(2);
+    expect([...received[1].payload]).toEqual([0, 1, 254, 255]);
+    expect(received[1].metadata.raw.toString()).toBe('hi');
+  });
+
+  it("should route failures to the error output or catch nodes", async () => {
+    const testWorkflow: WorkflowDefinition = {
+      id: 'error-test',
+      name: 'Error Test',
+      type: 'flow',
+      nodes: [
+        {
+          id: '1',
+          type: 'inject',
+          name: 'Start',
+          config: { payload: { value: 1 } },
+          wires: [['2', '3']]
+        },
+        {
+          id: '2',
+          type: 'function',
+          name: 'Handled',
+          config: { code: 'throw new Error("handled failure");' },
+          wires: [['4'], ['5']],
+          errorOutput: 1
+        },
+        {
+          id: '3',
+          type: 'function',
+          name: 'Unhandled',
+          config: { code: 'throw new Error("unhandled failure");' },
+          wires: [['4']]
+        },
+        { id: '4', type: 'function', name: 'Success', config: { code: 'received.push("success"); return null;' }, wires: [[]] },
+        { id: '5', type: 'function', name: 'On Error', config: { code: 'received.push(msg.error); return null;' }, wires: [[]] },
+        { id: '6', type: 'catch', name: 'Catch All', config: { scope: 'all' }, wires: [['7']] },
+        { id: '7', type: 'function', name: 'Caught', config: { code: 'received.push(msg.metadata.error.source.id + ": " + msg.error); return null;' }, wires: [[]] }
+      ]
+    };
+
+    const received: string[] = [];
+    (globalThis as any).received = received;
+    engine.on('error', () => {});
+    engine.loadWorkflow(testWorkflow);
+
+    const originalLog = console.log;
+    const originalError = console.error;
+    console.log = () => {};
+    console.error = () => {};
+    await engine.executeWorkflow('error-test');
+    console.log = originalLog;
+    console.error = originalError;
+    delete (globalThis as any).received;
+
+    expect(received.sort()).toEqual(['3: unhandled failure', 'handled failure']);
+  });
+
+  it("should retry failing nodes and only forward the successful attempt", async () => {
+    const testWorkflow: WorkflowDefinition = {
+      id: 'retry-test',
+      name: 'Retry Test',
+      type: 'flow',
+      nodes: [
+        {
+          id: '1',
+          type: 'inject',
+          name: 'Start',
+          config: { payload: { value: 1 } },
+          wires: [['2', '3']]
+        },
+        {
+          id: '2',
+          type: 'function',
+          name: 'Flaky',
+          config: {
+            code: `
+              state.attempts++;
+              if (state.attempts < 3) throw new Error('ECONNRESET');
+              return { payload: { attempts: state.attempts } };
+            `
+          },
+          wires: [['4']],
+          retry: { maxAttempts: 3, backoff: 'exponential', delayMs: 5 }
+        },
+        {
+          id: '3',
+          type: 'function',
+          name: 'Fatal',
+          config: { code: 'state.fatal++; throw new Error("invalid input");' },
+          wires: [[]],
+          retry: { maxAttempts: 3, delayMs: 5, retryOn: ['ECONNRESET'] }
+        },
+        {
+          id: '4',
+          type: 'function',
+          name: 'Result',
+          config: { code: 'state.results.push(msg.payload.attempts); return null;' },
+          wires: [[]]
+        }
+      ]
+    };
+
+    const state = { attempts: 0, fatal: 0, results: [] as number[] };
+    (globalThis as any).state = state;
+    engine.on('error', () => {});
+    engine.loadWorkflow(testWorkflow);
+
+    const originalLog = console.log;
+    const originalError = console.error;
+    console.log = () => {};
+    console.error = () => {};
+    await engine.executeWorkflow('retry-test');
+    console.log = originalLog;
+    console.error = originalError;
+    delete (globalThis as any).state;
+
+    expect(state.attempts).toBe(3);
+    expect(state.results).toEqual([3]);
+    // Errors that don't match retryOn fail on the first attempt
+    expect(state.fatal).toBe(1);
+  });
+
+  it("should time out hung nodes and cancel runs", async () => {
+    const testWorkflow: WorkflowDefinition = {
+      id: 'timeout-test',
+      name: 'Timeout Test',
+      type: 'flow',
+      nodes: [
+        {
+          id: '1',
+          type: 'inject',
+          name: 'Start',
+          config: { payload: {} },
+          wires: [['2', '3']]
+        },
+        {
+          id: '2',
+          type: 'function',
+          name: 'Hung',
+          config: { code: 'return new Promise(() => {});' },
+          wires: [[], ['4']],
+          errorOutput: 1,
+          timeout: 20
+        },
+        { id: '3', type: 'delay', name: 'Wait', config: { delay: 10000 }, wires: [['5']] },
+        { id: '4', type: 'function', name: 'Timed Out', config: { code: 'state.errors.push(msg.error); return null;' }, wires: [[]] },
+        { id: '5', type: 'function', name: 'After Wait', config: { code: 'state.waited = true; return null;' }, wires: [[]] }
+      ]
+    };
+
+    const state = { errors: [] as string[], waited: false };
+    (globalThis as any).state = state;
+    engine.on('error', () => {});
+    engine.on('nodeStart', (nodeId: string, _name: string, _type: string, _workflowId: string, runId: string) => {
+      // Cancel once the delay is running
+      if (nodeId === '3') setTimeout(() => engine.cancelRun(runId), 50);
+    });
+    let status: string | undefined;
+    engine.on('runComplete', (run: { status: string }) => { status = run.status; });
+    engine.loadWorkflow(testWorkflow);
+
+    const originalLog = console.log;
+    const originalError = console.error;
+    console.log = () => {};
+    console.error = () => {};
+    const startTime = Date.now();
+    await engine.executeWorkflow('timeout-test');
+    console.log = originalLog;
+    console.error = originalError;
+    delete (globalThis as any).state;
+
+    expect(Date.now() - startTime).toBeLessThan(1000);
+    expect(state.errors).toEqual(['Node timed out after 20ms']);
+    expect(state.waited).toBe(false);
+    expect(status).toBe('cancelled');
+    expect(engine.getActiveRuns()).toEqual([]);
+  });
+
+  it("should retry with the same Buffers the first attempt got", async () => {
+    const seen: Array<string | false> = [];
+    engine.registerNodeType('flaky', async (msg) => {
+      seen.push(Buffer.isBuffer(msg.payload.file) && msg.payload.file.toString('base64'));
+      if (seen.length < 2) throw new Error('ECONNRESET');
+    });
+    engine.on('error', () => {});
+    engine.loadWorkflow({
+      id: 'retry-buffer',
+      name: 'Retry Buffer',
+      type: 'flow',
+      nodes: [
+        { id: '1', type: 'flaky', name: 'Flaky', config: {}, wires: [[]], retry: { maxAttempts: 2, delayMs: 5 } }
+      ]
+    });
+
+    const originalLog = console.log;
+    console.log = () => {};
+    await engine.executeNodeById('retry-buffer', '1', { file: Buffer.from('hi') });
+    console.log = originalLog;
+
+    expect(seen).toEqual(['aGk=', 'aGk=']);
+  });
+
+  it("should drop what a timed-out attempt sends after it was abandoned", async () => {
+    // Every attempt sends once after its delay, ignoring the abort signal
+    const attempts: Record<string, number> = {};
+    engine.registerNodeType('late', async (msg, ctx) => {
+      const workflowId = ctx.workflowId!;
+      const attempt = attempts[workflowId] = (attempts[workflowId] ?? 0) + 1;
+      const delay = ctx.node.config.delays[attempt - 1];
+      await new Promise(resolve => setTimeout(resolve, delay));
+      ctx.send({ ...msg, payload: `attempt${attempt}` });
+    });
+    const received: Record<string, string[]> = {};
+    engine.registerNodeType('record', async (msg, ctx) => { (received[ctx.workflowId!] ??= []).push(msg.payload); });
+    engine.on('error', () => {});
+    const workflow = (id: string, late: Partial<WorkflowDefinition['nodes'][number]>): WorkflowDefinition => ({
+      id,
+      name: id,
+      type: 'flow',
+      nodes: [
+        { id: '1', type: 'inject', name: 'Start', config: { payload: {} }, wires: [['2']] },
+        { id: '2', type: 'late', name: 'Late', config: {}, wires: [['3']], timeout: 30, ...late },
+        { id: '3', type: 'record', name: 'Sink', config: {}, wires: [[]] }
+      ]
+    });
+    engine.loadWorkflow(workflow('late-timeout', { config: { delays: [100] } }));
+    engine.loadWorkflow(workflow('late-retry', { config: { delays: [60, 0] }, retry: { maxAttempts: 2, delayMs: 5 } }));
+
+    const originalLog = console.log;
+    const originalError = console.error;
+    console.log = () => {};
+    console.error = () => {};
+    await Promise.all([engine.executeWorkflow('late-timeout'), engine.executeWorkflow('late-retry')]);
+    // Past the abandoned attempts' sends
+    await new Promise(resolve => setTimeout(resolve, 150));
+    console.log = originalLog;
+    console.error = originalError;
+
+    expect(received['late-timeout']).toBeUndefined();
+    expect(received['late-retry']).toEqual(['attempt2']);
+    expect(engine.getActiveRuns()).toEqual([]);
+  });
+
+  it("should stop retrying once a run is cancelled during the backoff", async () => {
+    let attempts = 0;
+    engine.registerNodeType('flaky', async () => {
+      attempts++;
+      throw new Error('ECONNRESET');
+    });
+    engine.on('nodeStart', (nodeId: string, _name: string, _type: string, _workflowId: string, runId: string) => {
+      if (nodeId === '2') setTimeout(() => engine.cancelRun(runId), 20);
+    });
+    let status: string | undefined;
+    engine.on('runComplete', (run: { status: string }) => { status = run.status; });
+    engine.loadWorkflow({
+      id: 'cancel-retry',
+      name: 'Cancel Retry',
+      type: 'flow',
+      nodes: [
+        { id: '1', type: 'inject', name: 'Start', config: { payload: {} }, wires: [['2']] },
+        { id: '2', type: 'flaky', name: 'Flaky', config: {}, wires: [[]], retry: { maxAttempts: 3, delayMs: 100 } }
+      ]
+    });
+
+    const originalLog = console.log;
+    console.log = () => {};
+    await engine.executeWorkflow('cancel-retry');
+    console.log = originalLog;
+
+    expect(attempts).toBe(1);
+    expect(status).toBe('cancelled');
+  });
+
+  it("should join loop sequences and parallel branches", async () => {
+    const testWorkflow: WorkflowDefinition = {
+      id: 'join-test',
+      name: 'Join Test',
+      type: 'flow',
+      nodes: [
+        {
+          id: '1',
+          type: 'inject',
+          name: 'Start',
+          config: { payload: { items: [1, 2, 3] } },
+          wires: [['2', '5', '6']]
+        },
+        { id: '2', type: 'loop', name: 'Each', config: { mode: 'foreach', arrayPath: 'payload.items' }, wires: [['3']] },
+        {
+          id: '3',
+          type: 'function',
+          name: 'Square',
+          // Finish out of order to check that join restores the sequence
+          config: { code: 'return new Promise(r => setTimeout(() => r({ ...msg, payload: msg.payload * msg.payload }), 30 - msg.payload * 10));' },
+          wires: [['4']]
+        },
+        { id: '4', type: 'join', name: 'Collect', config: { mode: 'array' }, wires: [['8']] },
+        { id: '5', type: 'transform', name: 'A', config: { operation: 'set', field: 'a', value: 1 }, wires: [['7']] },
+        { id: '6', type: 'function', name: 'B', config: { code: 'return { ...msg, payload: { b: 2 } };' }, wires: [['7']] },
+        { id: '7', type: 'join', name: 'Merge', config: { mode: 'object', count: 2 }, wires: [['9']] },
+        { id: '8', type: 'function', name: 'Squares', config: { code: 'state.squares = msg.payload; return null;' }, wires: [[]] },
+        { id: '9', type: 'function', name: 'Merged', config: { code: 'state.merged = msg.payload; return null;' }, wires: [[]] }
+      ]
+    };
+
+    const state: Record<string, any> = {};
+    (globalThis as any).state = state;
+    engine.loadWorkflow(testWorkflow);
+
+    const originalLog = console.log;
+    console.log = () => {};
+    await engine.executeWorkflow('join-test');
+    console.log = originalLog;
+    delete (globalThis as any).state;
+
+    expect(state.squares).toEqual([1, 4, 9]);
+    expect(state.merged).toEqual({ items: [1, 2, 3], a: 1, b: 2 });
+  });
+
+  it("should keep a join group shared by several runs going when one of them is cancelled", async () => {
+    engine.registerNodeType('start', async (msg, ctx) => { ctx.send(msg); });
+    const joined: any[] = [];
+    engine.registerNodeType('record', async (msg) => { joined.push(msg); });
+    const statuses: Record<string, string> = {};
+    engine.on('runComplete', (run: { runId: string; status: string }) => { statuses[run.runId] = run.status; });
+    const waiting: string[] = [];
+    engine.on('nodeStart', (nodeId: string, _name: string, _type: string, _workflowId: string, runId: string) => {
+      if (nodeId === '2') waiting.push(runId);
+    });
+    const untilWaiting = async (count: number) => {
+      while (waiting.length < count) await Bun.sleep(1);
+    };
+    engine.loadWorkflow({
+      id: 'join-runs',
+      name: 'Join Runs',
+      type: 'flow',
+      nodes: [
+        { id: '1', type: 'start', name: 'Start', config: {}, wires: [['2']] },
+        { id: '2', type: 'join', name: 'Collect', config: { mode: 'array', count: 3, groupBy: 'payload.order', timeout: 500 }, wires: [['3']] },
+        { id: '3', type: 'record', name: 'Record', config: {}, wires: [] }
+      ]
+    });
+
+    const originalLog = console.log;
+    console.log = () => {};
+    try {
+      const runs = [engine.executeWorkflow('join-runs', { order: 7, item: 'a' })];
+      await untilWaiting(1);
+      runs.push(engine.executeWorkflow('join-runs', { order: 7, item: 'b' }));
+      await untilWaiting(2);
+      engine.cancelRun(waiting[0]!);
+      runs.push(engine.executeWorkflow('join-runs', { order: 7, item: 'c' }));
+      runs.push(engine.executeWorkflow('join-runs', { order: 7, item: 'd' }));
+      await Promise.all(runs);
+    } finally {
+      console.log = originalLog;
+    }
+
+    expect(waiting.map(runId => statuses[runId])).toEqual(['cancelled', 'success', 'success', 'success']);
+    expect(joined).toHaveLength(1);
+    expect(joined[0].payload.map((p: any) => p.item)).toEqual(['b', 'c', 'd']);
+    expect(joined[0].metadata.joined).toEqual({ count: 3, complete: true });
+  });
+
+  it("should count messages from separate listener runs into one join group", async () => {
+    // Like mqtt-in: registers, then starts a run for every message it sends
+    engine.registerNodeType('listen', async (_msg, ctx) => {
+      ['a', 'b', 'c', 'd', 'e', 'f'].forEach((item, i) => setTimeout(() => ctx.send({ payload: item }), i * 5));
+    });
+    const joined: any[] = [];
+    engine.registerNodeType('record', async (msg) => { joined.push(msg.payload); });
+    const runIds = new Set<string>();
+    engine.on('nodeStart', (nodeId: string, _name: string, _type: string, _workflowId: string, runId: string) => {
+      if (nodeId === '2') runIds.add(runId);
+    });
+    engine.loadWorkflow({
+      id: 'join-listener',
+      name: 'Join Listener',
+      type: 'flow',
+      nodes: [
+        { id: '1', type: 'listen', name: 'Listen', config: {}, wires: [['2']] },
+        { id: '2', type: 'join', name: 'Batch', config: { mode: 'array', count: 3, timeout: 1000 }, wires: [['3']] },
+        { id: '3', type: 'record', name: 'Record', config: {}, wires: [] }
+      ]
+    });
+
+    const originalLog = console.log;
+    console.log = () => {};
+    try {
+      await engine.executeNodeById('join-listener', '1', undefined, 'deploy');
+      while (joined.length < 2) await Bun.sleep(5);
+    } finally {
+      console.log = originalLog;
+    }
+
+    expect(runIds.size).toBe(6);
+    expect(joined).toEqual([['a', 'b', 'c'], ['d', 'e', 'f']]);
+  });
+
+  it("should split with parts metadata that join reassembles", async () => {
+    const testWorkflow: WorkflowDefinition = {
+      id: 'split-test',
+      name: 'Split Test',
+      type: 'flow',
+      nodes: [
+        {
+          id: '1',
+          type: 'inject',
+          name: 'Start',
+          config: { payload: { prices: { apple: 1, pear: 2 }, csv: 'a,b,c' } },
+          wires: [['2', '5']]
+        },
+        { id: '2', type: 'split', name: 'By Key', config: { field: 'payload.prices' }, wires: [['3']] },
+        // Builds a fresh message; the parts metadata is carried over by the engine
+        { id: '3', type: 'function', name: 'Double', config: { code: 'return { payload: msg.payload * 2 };' }, wires: [['4']] },
+        { id: '4', type: 'join', name: 'Rebuild', config: { mode: 'keyvalue' }, wires: [['8']] },
+        { id: '5', type: 'split', name: 'By Comma', config: { field: 'payload.csv', delimiter: ',' }, wires: [['6']] },
+        { id: '6', type: 'function', name: 'Position', config: { code: 'return { payload: msg.metadata.parts.index + ":" + msg.payload };' }, wires: [['7']] },
+        { id: '7', type: 'join', name: 'Collect', config: { mode: 'array' }, wires: [['9']] },
+        { id: '8', type: 'function', name: 'Prices', config: { code: 'state.prices = msg.payload; state.parts = msg.metadata.parts; return null;' }, wires: [[]] },
+        { id: '9', type: 'function', name: 'Letters', config: { code: 'state.letters = msg.payload; return null;' }, wires: [[]] }
+      ]
+    };
+
+    const state: Record<string, any> = {};
+    (globalThis as any).state = state;
+    engine.loadWorkflow(testWorkflow);
+
+    const originalLog = console.log;
+    console.log = () => {};
+    await engine.executeWorkflow('split-test');
+    console.log = originalLog;
+    delete (globalThis as any).state;
+
+    expect(state.prices).toEqual({ apple: 2, pear: 4 });
+    expect(state.parts).toBeUndefined();
+    expect(state.letters).toEqual(['0:a', '1:b', '2:c']);
+  });
+
+  it("should route switch rules in first-match and check-all modes", async () => {
+    const rules = JSON.stringify([
+      { type: 'type', value: 'number' },
+      { type: 'range', min: 0, max: 10 },
+      { type: 'regex', value: '^err' },
+      { type: 'js', value: 'value.length > 3' },
+      { type: 'else' }
+    ]);
+    const record = (label: string) => ({ code: `state.push("${label}:" + msg.payload); return null;` });
+    const testWorkflow: WorkflowDefinition = {
+      id: 'switch-test',
+      name: 'Switch Test',
+      type: 'flow',
+      nodes: [
+        { id: '1', type: 'inject', name: 'Start', config: { payload: [5, 50, 'error', 'hello', 'ok'] }, wires: [['2']] },
+        { id: '2', type: 'split', name: 'Each', config: {}, wires: [['3', '4']] },
+        { id: '3', type: 'switch', name: 'First', config: { rules }, wires: [['a'], ['b'], ['c'], ['d'], ['e']] },
+        { id: '4', type: 'switch', name: 'All', config: { rules, match: 'all' }, wires: [['f'], ['g'], [], [], []] },
+        { id: 'a', type: 'function', name: 'A', config: record('number'), wires: [[]] },
+        { id: 'b', type: 'function', name: 'B', config: record('range'), wires: [[]] },
+        { id: 'c', type: 'function', name: 'C', config: record('regex'), wires: [[]] },
+        { id: 'd', type: 'function', name: 'D', config: record('js'), wires: [[]] },
+        { id: 'e', type: 'function', name: 'E', config: record('else'), wires: [[]] },
+        { id: 'f', type: 'function', name: 'F', config: record('all-number'), wires: [[]] },
+        { id: 'g', type: 'function', name: 'G', config: record('all-range'), wires: [[]] }
+      ]
+    };
+
+    const state: string[] = [];
+    (globalThis as any).state = state;
+    engine.loadWorkflow(testWorkflow);
+
+    const originalLog = console.log;
+    console.log = () => {};
+    await engine.executeWorkflow('switch-test');
+    console.log = originalLog;
+    delete (globalThis as any).state;
+
+    expect(state.sort()).toEqual([
+      'all-number:5', 'all-number:50', 'all-range:5',
+      'else:ok', 'js:hello', 'number:5', 'number:50', 'regex:error'
+    ]);
+  });
+
+  it("should run user code in an isolated sandbox with limits", async () => {
+    const testWorkflow: WorkflowDefinition = {
+      id: 'sandbox-test',
+      name: 'Sandbox Test',
+      type: 'flow',
+      sandbox: { timeoutMs: 500 },
+      nodes: [
+        { id: '1', type: 'inject', name: 'Start', config: { payload: { value: 21 } }, wires: [['2', '4', '6']] },
+        // No host globals inside the sandbox; log is proxied to the engine
+        { id: '2', type: 'function', name: 'Isolated', config: { code: 'await log("inside"); msg.payload = [typeof Bun, typeof process, typeof globalThis.state, msg.payload.value * 2]; return msg;' }, wires: [['3']] },
+        { id: '3', type: 'filter', name: 'Check', config: { condition: 'msg.payload[3] === 42' }, wires: [['8'], []] },
+        { id: '4', type: 'function', name: 'Spin', config: { code: 'while (true) {}' }, wires: [[]] },
+        { id: '5', type: 'catch', name: 'Errors', config: { scope: 'all' }, wires: [['9']] },
+        { id: '6', type: 'hyperflow-step', name: 'Step', config: { code: 'throw new TypeError("bad " + new Signal(msg.payload.value).value);' }, wires: [[]] },
+        { id: '8', type: 'function', name: 'Result', config: { code: 'return msg;' }, wires: [[]] },
+        { id: '9', type: 'debug', name: 'Debug', config: {}, wires: [[]] }
+      ]
+    };
+
+    engine.loadWorkflow(testWorkflow);
+    engine.on('error', () => {});
+    const outputs: Record<string, any> = {};
+    engine.on('nodeTrace', (trace: any) => {
+      if (trace.outputs.length > 0) (outputs[trace.nodeId] ??= []).push(trace.outputs[0].message);
+    });
+    const logs: string[] = [];
+    engine.on('log', (message: string) => logs.push(message));
+
+    const originalLog = console.log;
+    const originalError = console.error;
+    console.log = () => {};
+    console.error = () => {};
+    await engine.executeWorkflow('sandbox-test');
+    console.log = originalLog;
+    console.error = originalError;
+
+    expect(outputs['3'][0].payload).toEqual(['undefined', 'undefined', 'undefined', 42]);
+    expect(logs.some(l => l.includes('inside'))).toBe(true);
+
+    const errors = outputs['5'].map((m: any) => m.metadata.error);
+    const timeout = errors.find((e: any) => e.source.id === '4');
+    expect(timeout.message).toBe('Sandbox time limit of 500ms exceeded');
+    const thrown = errors.find((e: any) => e.source.id === '6');
+    expect(thrown.message).toBe('bad 21');
+    expect(thrown.stack).toContain('TypeError');
+  });
+
+  it("should not let sandboxed code reach the worker's realm", async () => {
+    // Each probe tries to compile a function that returns a worker global
+    const code = `
+      const probe = (get) => {
+        try { return get()('return typeof Bun + "," + typeof process')(); } catch (err) { return 'blocked'; }
+      };
+      let caught;
+      try { null.x; } catch (err) { caught = err; }
+      msg.payload = [
+        probe(() => this.constructor.constructor),
+        probe(() => msg.constructor.constructor),
+        probe(() => caught.constructor.constructor),
+        probe(() => globalThis.constructor.constructor),
+        (function () { return typeof this; })()
+      ];
+      return msg;`;
+    const testWorkflow: WorkflowDefinition = {
+      id: 'sandbox-escape-test',
+      name: 'Sandbox Escape Test',
+      type: 'flow',
+      sandbox: true,
+      nodes: [
+        { id: '1', type: 'inject', name: 'Start', config: { payload: {} }, wires: [['2']] },
+        { id: '2', type: 'function', name: 'Escape', config: { code }, wires: [[]] }
+      ]
+    };
+
+    engine.loadWorkflow(testWorkflow);
+    let payload: any;
+    engine.on('nodeTrace', (trace: any) => {
+      if (trace.nodeId === '2' && trace.outputs.length > 0) payload = trace.outputs[0].message.payload;
+    });
+
+    const originalLog = console.log;
+    console.log = () => {};
+    await engine.executeWorkflow('sandbox-escape-test');
+    console.log = originalLog;
+
+    // Functions compiled inside the context only see its own globals
+    for (const result of payload.slice(0, 4)) expect(['blocked', 'undefined,undefined']).toContain(result);
+    expect(payload[4]).toBe('undefined');
+  });
+
+  it("should share flow and global context across runs and backends", async () => {
+    const database = new WorkflowDatabase(':memory:');
+    engine = new WorkflowEngine(new ContextStore(new SqliteContextBackend(database)));
+    const counter = 'const count = (await flow.get("count") ?? 0) + 1; await flow.set("count", count); await global.set("last", msg.payload); return msg;';
+    const makeWorkflow = (id: string, sandbox: boolean): WorkflowDefinition => ({
+      id,
+      name: id,
+      type: 'flow',
+      sandbox,
+      nodes: [
+        { id: '1', type: 'inject', name: 'Start', config: { payload: id }, wires: [['2']] },
+        { id: '2', type: 'function', name: 'Count', config: { code: counter }, wires: [['3']] },
+        { id: '3', type: 'template', name: 'Render', config: { template: '{{flow.count}} {{global.last}} {{payload}}' }, wires: [[]] }
+      ]
+    });
+    engine.loadWorkflow(makeWorkflow('context-a', false));
+    engine.loadWorkflow(makeWorkflow('context-b', true));
+
+    const rendered: string[] = [];
+    engine.on('nodeTrace', (trace: any) => {
+      if (trace.nodeId === '3') rendered.push(trace.outputs[0].message.payload);
+    });
+    const originalLog = console.log;
+    console.log = () => {};
+    await engine.executeWorkflow('context-a');
+    await engine.executeWorkflow('context-a');
+    // Sandboxed code reaches the store through the host
+    await engine.executeWorkflow('context-b');
+    console.log = originalLog;
+
+    expect(rendered).toEqual(['1 context-a context-a', '2 context-a context-a', '1 context-b context-b']);
+
+    // The values live in the database, so a new store (e.g. after a restart) sees them
+    const restarted = new ContextStore(new SqliteContextBackend(database));
+    expect(await restarted.flow('context-a').get('count')).toBe(2);
+    expect(await restarted.global.keys()).toEqual(['last']);
+    await restarted.global.set('last', undefined);
+    expect(await restarted.global.get('last')).toBeUndefined();
+    database.close();
+  });
+
+  it("should run collapsed nodes as a subflow with ports and error routing", async () => {
+    const original: WorkflowDefinition = {
+      id: 'subflow-parent',
+      name: 'Subflow Parent',
+      type: 'flow',
+      nodes: [
+        { id: '1', type: 'inject', name: 'Start', config: { payload: [4, -3, 0] }, wires: [['2']] },
+        { id: '2', type: 'split', name: 'Split', config: {}, wires: [['3']] },
+        { id: '3', type: 'function', name: 'Scale', config: { code: 'if (msg.payload === 0) throw new Error("zero"); msg.payload *= 10; return msg;' }, wires: [['4']] },
+        { id: '4', type: 'filter', name: 'Positive', config: { condition: 'msg.payload > 0' }, wires: [['5'], ['6']] },
+        { id: '5', type: 'function', name: 'Positive', config: { code: 'received.push("pos " + msg.payload); return null;' }, wires: [[]] },
+        { id: '6', type: 'function', name: 'Negative', config: { code: 'received.push("neg " + msg.payload); return null;' }, wires: [[]] },
+        { id: '7', type: 'catch', name: 'Catch All', config: { scope: 'all' }, wires: [['8']] },
+        { id: '8', type: 'function', name: 'Caught', config: { code: 'received.push(msg.metadata.error.source.id + ": " + msg.error); return null;' }, wires: [[]] }
+      ]
+    };
+
+    const { parent, subflow } = collapseIntoSubflow(original, new Set(['3', '4']), { id: 'scale-and-route', name: 'Scale and route', nodeId: 'sf' });
+    expect(subflowOutputCount(subflow)).toBe(2);
+    expect(parent.nodes.find(n => n.id === '2')!.wires).toEqual([['sf']]);
+    expect(parent.nodes.find(n => n.id === 'sf')!.wires).toEqual([['5'], ['6']]);
+
+    const received: string[] = [];
+    (globalThis as any).received = received;
+    engine.on('error', () => {});
+    // Only the parent is loaded; the subflow travels inside it
+    engine.loadWorkflow(bundleSubflows(parent, [parent, subflow]));
+
+    const originalLog = console.log;
+    const originalError = console.error;
+    console.log = () => {};
+    console.error = () => {};
+    await engine.executeWorkflow('subflow-parent');
+    console.log = originalLog;
+    console.error = originalError;
+    delete (globalThis as any).received;
+
+    expect(received.sort()).toEqual(['neg -30', 'pos 40', 'sf: zero']);
+  });
+
+  it("should run step workflows in order with failure policies and resume", async () => {
+    const testWorkflow: WorkflowDefinition = {
+      id: 'step-test',
+      name: 'Step Test',
+      type: 'step',
+      // Wires are ignored by steps, except after catch nodes
+      nodes: [
+        { id: '1', type: 'inject', name: 'Start', config: { payload: { job: 'etl' } }, wires: [[]] },
+        { id: '2', type: 'function', name: 'Extract', config: { code: 'msg.state.rows = [1, 2, 3]; return msg;' }, wires: [[]] },
+        { id: '3', type: 'function', name: 'Validate', config: { code: 'msg.state.rows.push(4); throw new Error("invalid");' }, wires: [[]], onFailure: { goto: '5' } },
+        { id: '4', type: 'function', name: 'Never', config: { code: 'received.push("never"); return msg;' }, wires: [[]] },
+        { id: '5', type: 'function', name: 'Count', config: { code: 'return { payload: msg.state.rows.length };' }, wires: [[]] },
+        { id: '6', type: 'function', name: 'Optional', config: { code: 'throw new Error("optional");' }, wires: [[]], onFailure: 'skip' },
+        { id: '7', type: 'function', name: 'Load', config: { code: 'if (!allowLoad) throw new Error("db down"); msg.state.loaded = msg.payload; return msg;' }, wires: [[]] },
+        { id: '8', type: 'function', name: 'Done', config: { code: 'received.push(JSON.stringify(msg.state)); return null;' }, wires: [[]] },
+        { id: '9', type: 'catch', name: 'Catch', config: { scope: 'all' }, wires: [['10']] },
+        { id: '10', type: 'function', name: 'Report', config: { code: 'received.push(msg.metadata.error.source.id + ": " + msg.error); return null;' }, wires: [[]] }
+      ]
+    };
+
+    const received: string[] = [];
+    (globalThis as any).received = received;
+    (globalThis as any).allowLoad = false;
+    const checkpoints: StepCheckpoint[] = [];
+    engine.on('stepCheckpoint', (checkpoint: StepCheckpoint) => checkpoints.push(checkpoint));
+    const statuses: string[] = [];
+    engine.on('runComplete', (run: any) => statuses.push(run.status));
+    engine.on('error', () => {});
+    engine.loadWorkflow(testWorkflow);
+
+    const originalLog = console.log;
+    const originalError = console.error;
+    console.log = () => {};
+    console.error = () => {};
+    const runId = await engine.executeWorkflow('step-test');
+
+    // Failed at Load, so the run can continue there with the state so far
+    const checkpoint = checkpoints.at(-1)!;
+    expect(checkpoint).toMatchObject({ runId, nextStep: '7', msg: { payload: 3, state: { rows: [1, 2, 3] } } });
+    expect(received).toEqual(['7: db down']);
+
+    (globalThis as any).allowLoad = true;
+    const resumedRunId = await engine.resumeFrom(testWorkflow, checkpoint);
+    console.log = originalLog;
+    console.error = originalError;
+    delete (globalThis as any).received;
+    delete (globalThis as any).allowLoad;
+
+    expect(received).toEqual(['7: db down', '{"rows":[1,2,3],"loaded":3}']);
+    expect(statuses).toEqual(['error', 'success']);
+    expect(checkpoints.at(-1)).toMatchObject({ runId: resumedRunId, nextStep: null });
+    await expect(engine.resumeFrom(testWorkflow, checkpoints.at(-1)!)).rejects.toThrow('already completed');
+  });
+
+  it("should report validation diagnostics for broken definitions", () => {
+    const broken: WorkflowDefinition = {
+      id: 'broken',
+      name: 'Broken',
+      type: 'flow',
+      nodes: [
+        { id: '1', type: 'inject', name: 'Start', config: {}, wires: [['2', 'ghost']] },
+        { id: '2', type: 'debug', name: 'Log', config: {}, wires: [['3']] },
+        { id: '3', type: 'function', name: 'A', config: {}, wires: [['4']] },
+        { id: '4', type: 'function', name: 'B', config: {}, wires: [['3']] },
+        { id: '5', type: 'teleport', name: 'Mystery', config: {}, wires: [[]] },
+        { id: '6', type: 'http-request', name: 'Fetch', config: { url: '' }, wires: [[]] }
+      ]
+    };
+
+    const diagnostics = engine.validateWorkflow(broken);
+    const summary = diagnostics.map(d => `${d.severity} ${d.code} ${d.nodeId}`).sort();
+    expect(summary).toEqual([
+      'error cycle 3',
+      'error dangling-wire 1',
+      'error invalid-output 2',
+      'error missing-config 6',
+      'error unknown-type 5',
+      'warning unreachable 3',
+      'warning unreachable 4',
+      'warning unreachable 5',
+      'warning unreachable 6'
+    ]);
+    expect(diagnostics.find(d => d.code === 'cycle')!.nodeIds).toEqual(['3', '4']);
+    expect(diagnostics.find(d => d.code === 'missing-config')!.field).toBe('url');
+
+    // Routes clash within the workflow and with other deployed workflows
+    const route = (id: string, path: string) => ({ id, type: 'http-in', name: `Route ${id}`, config: { method: 'get', path }, wires: [[]] });
+    const deployed: WorkflowDefinition = { id: 'deployed', name: 'Deployed', type: 'flow', nodes: [route('d1', '/orders')] };
+    const api: WorkflowDefinition = {
+      id: 'api',
+      name: 'API',
+      type: 'flow',
+      nodes: [route('a1', '/orders/'), route('a2', '/items'), route('a3', '/items'), route('a4', '/users/:id'), route('a5', '/users/:uid')]
+    };
+    engine.registerNodeType('http-in', async () => {});
+    const routeMessages = engine.validateWorkflow(api, [deployed, api]).map(d => d.message);
+    expect(routeMessages).toEqual([
+      'GET /orders/ is already handled by deployed workflow Deployed',
+      'GET /items is handled by 2 http-in nodes',
+      'GET /users/:id is handled by 2 http-in nodes'
+    ]);
+    expect(engine.validateWorkflow({ id: 'shape' } as any)[0]!.code).toBe('invalid-definition');
+  });
+
+  it("should stop messages that loop past the hop limit", async () => {
+    const makeWorkflow = (id: string, code: string): WorkflowDefinition => ({
+      id,
+      name: id,
+      type: 'flow',
+      allowCycles: true,
+      maxHops: 50,
+      nodes: [
+        { id: '1', type: 'inject', name: 'Start', config: { payload: 1 }, wires: [['2']] },
+        // Builds a fresh message each time, which must not reset the hop count
+        { id: '2', type: 'function', name: 'Count', config: { code }, wires: [['3']] },
+        { id: '3', type: 'function', name: 'Again', config: { code: 'return msg;' }, wires: [['2']] },
+        { id: '4', type: 'catch', name: 'Catch', config: { scope: 'all' }, wires: [['5']] },
+        { id: '5', type: 'function', name: 'Report', config: { code: 'received.push(msg.metadata.error.source.id + ": " + msg.error); return null;' }, wires: [[]] }
+      ]
+    });
+    const bounded = makeWorkflow('bounded-loop', 'received.push(msg.payload); return msg.payload < 3 ? { payload: msg.payload + 1 } : null;');
+    const runaway = makeWorkflow('runaway-loop', 'return { payload: msg.payload + 1 };');
+
+    // Loops fail validation unless the workflow opts in
+    expect(engine.validateWorkflow({ ...runaway, allowCycles: false }).find(d => d.code === 'cycle')!.severity).toBe('error');
+    expect(engine.validateWorkflow(runaway).find(d => d.code === 'cycle')!.severity).toBe('warning');
+
+    const received: any[] = [];
+    (globalThis as any).received = received;
+    const statuses: string[] = [];
+    engine.on('runComplete', (run: any) => statuses.push(run.status));
+    engine.on('error', () => {});
+    engine.loadWorkflow(bounded);
+    engine.loadWorkflow(runaway);
+
+    const originalLog = console.log;
+    const originalError = console.error;
+    console.log = () => {};
+    console.error = () => {};
+    await engine.executeNodeById('bounded-loop', '1');
+    await engine.executeNodeById('runaway-loop', '1');
+    console.log = originalLog;
+    console.error = originalError;
+    delete (globalThis as any).received;
+
+    expect(received).toEqual([1, 2, 3, '2: Message passed through more than 50 nodes; stopped before Count (is it wired in a loop?)']);
+    expect(statuses).toEqual(['success', 'error']);
+  });
+
+  it("should queue executions over concurrency limits and apply the overflow policy", async () => {
+    let running = 0;
+    let peak = 0;
+    const processed: any[] = [];
+    engine.registerNodeType('slow', async (msg, ctx) => {
+      peak = Math.max(peak, ++running);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      running--;
+      processed.push(msg.payload);
+      ctx.send(msg);
+    });
+
+    engine.loadWorkflow({
+      id: 'node-limit',
+      name: 'Node Limit',
+      type: 'flow',
+      nodes: [
+        { id: '1', type: 'slow', name: 'Slow', config: {}, wires: [[]], concurrency: { max: 1, maxQueue: 2, overflow: 'drop' } }
+      ]
+    });
+    engine.loadWorkflow({
+      id: 'workflow-limit',
+      name: 'Workflow Limit',
+      type: 'flow',
+      concurrency: { max: 1, maxQueue: 0 },
+      nodes: [{ id: '1', type: 'slow', name: 'Slow', config: {}, wires: [[]] }]
+    });
+    engine.on('error', () => {});
+
+    const originalLog = console.log;
+    console.log = () => {};
+    const burst = Promise.all([1, 2, 3, 4].map(n => engine.executeNodeById('node-limit', '1', n)));
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const during = engine.getConcurrencyStats().find(s => s.nodeId === '1');
+    await burst;
+
+    const first = engine.executeWorkflow('workflow-limit');
+    const second = engine.executeWorkflow('workflow-limit').catch((err: Error) => err.name);
+    const results = await Promise.all([first, second]);
+    console.log = originalLog;
+
+    // One runs, two wait in order, the fourth is dropped
+    expect(during).toMatchObject({ workflowId: 'node-limit', active: 1, queued: 2 });
+    expect(peak).toBe(1);
+    expect(processed.slice(0, 3)).toEqual([1, 2, 3]);
+    expect(engine.getConcurrencyStats()).toEqual([
+      { workflowId: 'node-limit', nodeId: '1', max: 1, maxQueue: 2, active: 0, queued: 0, dropped: 1, rejected: 0 },
+      { workflowId: 'workflow-limit', nodeId: undefined, max: 1, maxQueue: 0, active: 0, queued: 0, dropped: 0, rejected: 1 }
+    ]);
+    expect(results[1]).toBe('QueueFullError');
+  });
+
+  it("should deploy and test a workflow whose concurrency limit is taken", async () => {
+    let open!: () => void;
+    const gate = new Promise<void>(resolve => { open = resolve; });
+    engine.registerNodeType('gate', async () => { await gate; });
+    const registered: string[] = [];
+    engine.registerNodeType('listen', async (_msg, ctx) => { registered.push(ctx.runId); });
+    engine.loadWorkflow({
+      id: 'full',
+      name: 'Full',
+      type: 'flow',
+      concurrency: { max: 1, maxQueue: 0 },
+      nodes: [
+        { id: '1', type: 'gate', name: 'Gate', config: {}, wires: [[]] },
+        { id: '2', type: 'listen', name: 'Listen', config: {}, wires: [[]] }
+      ]
+    });
+
+    const originalLog = console.log;
+    console.log = () => {};
+    const busy = engine.executeNodeById('full', '1');
+    await new Promise(resolve => setTimeout(resolve, 5));
+    // Neither waits for the busy run nor is turned away
+    await engine.executeNodeById('full', '2', undefined, 'deploy');
+    await engine.executeNodeById('full', '2', {}, 'test');
+    const rejected = await engine.executeNodeById('full', '2').catch((err: Error) => err.name);
+    open();
+    await busy;
+    console.log = originalLog;
+
+    expect(registered).toHaveLength(2);
+    expect(rejected).toBe('QueueFullError');
+    expect(engine.getConcurrencyStats()).toEqual([
+      { workflowId: 'full', nodeId: undefined, max: 1, maxQueue: 0, active: 0, queued: 0, dropped: 0, rejected: 1 }
+    ]);
+  });
+
+  it("should answer http-in requests the workflow's concurrency limit rejects with a 503", async () => {
+    const httpService = new HttpInService(38423);
+    registerRuntimeNodes(engine, httpService, new MqttService());
+    let open!: () => void;
+    const gate = new Promise<void>(resolve => { open = resolve; });
+    engine.registerNodeType('gate', async (msg, ctx) => {
+      await gate;
+      ctx.send(msg);
+    });
+    const errors: string[] = [];
+    engine.on('error', (message: string, error?: Error) => errors.push(`${message}: ${error?.name}`));
+    engine.loadWorkflow({
+      id: 'busy',
+      name: 'Busy',
+      type: 'flow',
+      concurrency: { max: 1, maxQueue: 0, overflow: 'reject' },
+      nodes: [
+        { id: 'wait', type: 'http-in', name: 'Wait', config: { method: 'POST', path: '/wait', respond: 'http-response' }, wires: [['gate']] },
+        { id: 'fire', type: 'http-in', name: 'Fire', config: { method: 'POST', path: '/fire' }, wires: [['fired']] },
+        { id: 'gate', type: 'gate', name: 'Gate', config: {}, wires: [['reply']] },
+        { id: 'fired', type: 'gate', name: 'Fired', config: {}, wires: [] },
+        { id: 'reply', type: 'http-response', name: 'Reply', config: {}, wires: [] }
+      ]
+    });
+
+    const post = (path: string) => fetch(`http://localhost:38423${path}`, { method: 'POST', body: '{}' });
+    const originalLog = console.log;
+    const originalError = console.error;
+    console.log = () => {};
+    console.error = () => {};
+    try {
+      await httpService.start();
+      await engine.executeWorkflow('busy');
+
+      // The first request holds the only slot until the gate opens
+      const first = post('/wait');
+      while (engine.getActiveRuns().length === 0) await Bun.sleep(1);
+
+      const fired = await post('/fire');
+      expect(fired.status).toBe(503);
+      expect(fired.headers.get('retry-after')).toBe('1');
+      expect((await post('/wait')).status).toBe(503);
+
+      open();
+      expect((await first).status).toBe(200);
+      expect((await post('/fire')).status).toBe(200);
+    } finally {
+      await httpService.stop();
+      clearRuntimeSubscriptions();
+      console.log = originalLog;
+      console.error = originalError;
+    }
+    expect(errors).toEqual(['Listener run failed: QueueFullError', 'Listener run failed: QueueFullError']);
+  });
+
+  it("should rate limit, queue, drop and debounce messages per key", async () => {
+    const received: string[] = [];
+    engine.registerNodeType('record', async (msg, ctx) => {
+      received.push(`${ctx.node.name} ${msg.payload.id}${msg.payload.n}`);
+    });
+    const limited = (id: string, config: Record<string, any>): WorkflowDefinition => ({
+      id,
+      name: id,
+      type: 'flow',
+      nodes: [
+        { id: '1', type: 'rate-limit', name: 'Limit', config, wires: [['2'], ['3']] },
+        { id: '2', type: 'record', name: 'pass', config: {}, wires: [] },
+        { id: '3', type: 'record', name: 'drop', config: {}, wires: [] }
+      ]
+    });
+    engine.loadWorkflow(limited('per-key', { mode: 'rate', rate: 2, interval: 1000, keyPath: 'payload.id', excess: 'drop' }));
+    engine.loadWorkflow(limited('queued', { mode: 'rate', rate: 1, interval: 30, excess: 'queue', maxQueue: 1 }));
+    engine.loadWorkflow(limited('debounced', { mode: 'debounce', interval: 20 }));
+
+    const originalLog = console.log;
+    console.log = () => {};
+    const burst = (workflowId: string, messages: Array<[string, number]>) =>
+      Promise.all(messages.map(([id, n]) => engine.executeNodeById(workflowId, '1', { id, n })));
+
+    await burst('per-key', [['a', 1], ['a', 2], ['a', 3], ['b', 1]]);
+    const perKey = received.splice(0);
+    await burst('queued', [['q', 1], ['q', 2], ['q', 3]]);
+    const queued = received.splice(0);
+    await burst('debounced', [['d', 1], ['d', 2], ['d', 3]]);
+    const debounced = received.splice(0);
+    console.log = originalLog;
+
+    // Each key has its own bucket
+    expect(perKey).toEqual(['pass a1', 'pass a2', 'drop a3', 'pass b1']);
+    // The second message waits for a token, the third finds the queue full
+    expect(queued).toEqual(['pass q1', 'drop q3', 'pass q2']);
+    expect(debounced).toEqual(['drop d1', 'drop d2', 'pass d3']);
+  });
+
+  it("should give every branch of a fan-out its own copy of the message", async () => {
+    const received: any[] = [];
+    engine.registerNodeType('mutate', async (msg) => {
+      msg.payload.list.push('mutated');
+    });
+    engine.registerNodeType('record', async (msg) => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      received.push(msg.payload);
+    });
+    const fanOut = (id: string, cloneMessages?: boolean): WorkflowDefinition => ({
+      id,
+      name: id,
+      type: 'flow',
+      cloneMessages,
+      nodes: [
+        { id: '1', type: 'mutate', name: 'Mutate', config: {}, wires: [] },
+        { id: '2', type: 'transform', name: 'Set', config: { operation: 'set', field: 'done', value: true }, wires: [['4']] },
+        { id: '3', type: 'record', name: 'Sibling', config: {}, wires: [] },
+        { id: '4', type: 'record', name: 'Transformed', config: {}, wires: [] },
+        { id: '0', type: 'inject', name: 'Start', config: {}, wires: [['1', '2', '3']] }
+      ]
+    });
+    engine.loadWorkflow(fanOut('isolated'));
+    engine.loadWorkflow(fanOut('shared', false));
+
+    const originalLog = console.log;
+    console.log = () => {};
+    await engine.executeNodeById('isolated', '0', { list: [1] });
+    const isolated = received.splice(0);
+    await engine.executeNodeById('shared', '0', { list: [1] });
+    console.log = originalLog;
+
+    // Neither the mutating branch nor transform change what the sibling sees
+    expect(isolated).toContainEqual({ list: [1] });
+    expect(isolated).toContainEqual({ list: [1], done: true });
+    expect(received).toContainEqual({ list: [1, 'mutated'] });
+  });
+
+  it("should keep Buffers as Buffers on every branch of a fan-out", async () => {
+    // The same message on both outputs is copied too
+    engine.registerNodeType('bytes', async (_msg, ctx) => {
+      const msg = { payload: { file: Buffer.from('hi'), parts: [Buffer.from('xhiy').subarray(1, 3)] } };
+      ctx.send(msg, 0);
+      ctx.send(msg, 1);
+    });
+    const received: Record<string, any> = {};
+    engine.registerNodeType('record', async (msg, ctx) => {
+      received[ctx.node.id] = [msg.payload.file, msg.payload.parts[0]].map(b => Buffer.isBuffer(b) && b.toString('base64'));
+    });
+    engine.loadWorkflow({
+      id: 'buffer-fan-out',
+      name: 'Buffer Fan-out',
+      type: 'flow',
+      nodes: [
+        { id: '1', type: 'bytes', name: 'Bytes', config: {}, wires: [['a', 'b'], ['c']] },
+        { id: 'a', type: 'record', name: 'A', config: {}, wires: [] },
+        { id: 'b', type: 'record', name: 'B', config: {}, wires: [] },
+        { id: 'c', type: 'record', name: 'C', config: {}, wires: [] }
+      ]
+    });
+
+    const originalLog = console.log;
+    console.log = () => {};
+    await engine.executeNodeById('buffer-fan-out', '1');
+    console.log = originalLog;
+
+    expect(received).toEqual({ a: ['aGk=', 'aGk='], b: ['aGk=', 'aGk='], c: ['aGk=', 'aGk='] });
+  });
+
+  it("should answer http-in requests with what http-response sends, or 504", async () => {
+    const httpService = new HttpInService(38419);
+    registerRuntimeNodes(engine, httpService, new MqttService());
+    // Builds a fresh message; the request id carries over
+    engine.registerNodeType('greet', async (msg, ctx) => {
+      ctx.send({ payload: { hello: msg.payload.name } });
+    });
+    engine.loadWorkflow({
+      id: 'rest-api',
+      name: 'REST API',
+      type: 'flow',
+      nodes: [
+        { id: '1', type: 'http-in', name: 'Greet', config: { method: 'POST', path: '/greet', respond: 'http-response' }, wires: [['2']] },
+        { id: '2', type: 'greet', name: 'Build', config: {}, wires: [['3']] },
+        { id: '3', type: 'http-response', name: 'Reply', config: { statusCode: 201, headers: '{"X-Flow": "yes"}' }, wires: [] },
+        { id: '4', type: 'http-in', name: 'Silent', config: { method: 'GET', path: '/silent', respond: 'http-response', timeout: 50 }, wires: [[]] }
+      ]
+    });
+
+    const originalLog = console.log;
+    console.log = () => {};
+    try {
+      await httpService.start();
+      await engine.executeWorkflow('rest-api');
+
+      const greeted = await fetch('http://localhost:38419/greet', { method: 'POST', body: JSON.stringify({ name: 'Ada' }) });
+      const silent = await fetch('http://localhost:38419/silent');
+
+      expect(greeted.status).toBe(201);
+      expect(greeted.headers.get('x-flow')).toBe('yes');
+      expect(await greeted.json()).toEqual({ hello: 'Ada' });
+      expect(silent.status).toBe(504);
+    } finally {
+      await httpService.stop();
+      clearRuntimeSubscriptions();
+      console.log = originalLog;
+    }
+  });
+
+  it("should match http-in path params and wildcards and parse bodies by content type", async () => {
+    const httpService = new HttpInService(38420);
+    registerRuntimeNodes(engine, httpService, new MqttService());
+    // Replies with the params and a readable version of the body
+    engine.registerNodeType('echo', async (msg, ctx) => {
+      const describe = (value: any) => Buffer.isBuffer(value) ? `buffer:${value}` : value?.filename ? `${value.filename}:${value.data}` : value;
+      const body = typeof msg.payload === 'object' && !Buffer.isBuffer(msg.payload)
+        ? Object.fromEntries(Object.entries(msg.payload).map(([key, value]) => [key, describe(value)]))
+        : describe(msg.payload);
+      ctx.send({ payload: { params: msg.metadata?.params, body } });
+    });
+    const route = (id: string, path: string, config: Record<string, any> = {}) =>
+      ({ id, type: 'http-in', name: id, config: { method: 'POST', path, respond: 'http-response', ...config }, wires: [['echo']] });
+    engine.loadWorkflow({
+      id: 'routes',
+      name: 'Routes',
+      type: 'flow',
+      nodes: [
+        route('user', '/users/:id'),
+        route('me', '/users/me'),
+        route('files', '/files/*'),
+        route('small', '/small', { maxBodySize: 10 }),
+        { id: 'echo', type: 'echo', name: 'Echo', config: {}, wires: [['reply']] },
+        { id: 'reply', type: 'http-response', name: 'Reply', config: {}, wires: [] }
+      ]
+    });
+
+    const post = async (path: string, body: BodyInit, headers: Record<string, string> = {}) => {
+      const response = await fetch(`http://localhost:38420${path}`, { method: 'POST', body, headers });
+      return response.ok ? response.json() : response.status;
+    };
+    const form = new FormData();
+    form.append('note', 'hi');
+    form.append('upload', new File(['abc'], 'f.txt', { type: 'text/plain' }));
+
+    const originalLog = console.log;
+    console.log = () => {};
+    try {
+      await httpService.start();
+      await engine.executeWorkflow('routes');
+
+      expect(await post('/users/42', JSON.stringify({ a: 1 }), { 'Content-Type': 'application/json' }))
+        .toEqual({ params: { id: '42' }, body: { a: 1 } });
+      // The static route wins over /users/:id
+      expect(await post('/users/me', 'x=1&x=2&y=3', { 'Content-Type': 'application/x-www-form-urlencoded' }))
+        .toEqual({ params: {}, body: { x: ['1', '2'], y: '3' } });
+      expect(await post('/files/docs/a%20b.txt', form))
+        .toEqual({ params: { '0': 'docs/a b.txt' }, body: { note: 'hi', upload: 'f.txt:abc' } });
+      expect(await post('/files/x', 'hello', { 'Content-Type': 'text/plain' })).toMatchObject({ body: 'hello' });
+      expect(await post('/files/y', new Uint8Array([104, 105]), { 'Content-Type': 'application/octet-stream' })).toMatchObject({ body: 'buffer:hi' });
+      expect(await post('/users/42', '{broken', { 'Content-Type': 'application/json' })).toBe(400);
+      expect(await post('/small', 'x'.repeat(20), { 'Content-Type': 'text/plain' })).toBe(413);
+    } finally {
+      await httpService.stop();
+      clearRuntimeSubscriptions();
+      console.log = originalLog;
+    }
+  });
+
+  it("should authenticate http-in requests and answer CORS preflights", async () => {
+    const httpService = new HttpInService(38421, {
+      validateToken: async token => token === 'session-token'
+        ? { id: 'u1', username: 'ada', passwordHash: 'x', role: 'user', createdAt: 0 }
+        : null
+    });
+    registerRuntimeNodes(engine, httpService, new MqttService());
+    engine.registerNodeType('whoami', async (msg, ctx) => {
+      ctx.send({ payload: { user: msg.metadata?.user ?? null, apiKeyForwarded: 'x-api-key' in (msg.metadata?.headers ?? {}) } });
+    });
+    const route = (id: string, config: Record<string, any>) =>
+      ({ id, type: 'http-in', name: id, config: { method: 'POST', path: `/${id}`, respond: 'http-response', ...config }, wires: [['whoami']] });
+    engine.loadWorkflow({
+      id: 'secured',
+      name: 'Secured',
+      type: 'flow',
+      nodes: [
+        route('key', { auth: 'api-key', apiKey: 'k-123', corsOrigins: 'https://app.example' }),
+        route('basic', { auth: 'basic', username: 'admin', password: 'p:ss' }),
+        route('bearer', { auth: 'bearer' }),
+        route('hook', { auth: 'hmac', hmacScheme: 'github', hmacSecret: 's3cret' }),
+        route('stripe', { auth: 'hmac', hmacScheme: 'stripe', hmacSecret: 's3cret' }),
+        { id: 'whoami', type: 'whoami', name: 'Who', config: {}, wires: [['reply']] },
+        { id: 'reply', type: 'http-response', name: 'Reply', config: {}, wires: [] }
+      ]
+    });
+
+    const call = (path: string, headers: Record<string, string> = {}, body = '{}', method = 'POST') =>
+      fetch(`http://localhost:38421${path}`, { method, headers: { 'Content-Type': 'application/json', ...headers }, body: method === 'POST' ? body : undefined });
+    const hookBody = JSON.stringify({ action: 'opened' });
+    const signature = `sha256=${createHmac('sha256', 's3cret').update(hookBody).digest('hex')}`;
+    const stripeSignature = (t: string) => `t=${t},v1=${createHmac('sha256', 's3cret').update(`${t}.${hookBody}`).digest('hex')}`;
+
+    const originalLog = console.log;
+    console.log = () => {};
+    try {
+      await httpService.start();
+      await engine.executeWorkflow('secured');
+
+      expect((await call('/key')).status).toBe(401);
+      const keyed = await call('/key', { 'X-API-Key': 'k-123', Origin: 'https://app.example' });
+      expect(keyed.headers.get('access-control-allow-origin')).toBe('https://app.example');
+      expect(await keyed.json()).toEqual({ user: null, apiKeyForwarded: false });
+
+      expect((await call('/basic', { Authorization: `Basic ${btoa('admin:wrong')}` })).status).toBe(401);
+      expect(await (await call('/basic', { Authorization: `Basic ${btoa('admin:p:ss')}` })).json()).toMatchObject({ user: { username: 'admin' } });
+
+      expect((await call('/bearer', { Authorization: 'Bearer stale' })).status).toBe(401);
+      expect(await (await call('/bearer', { Authorization: 'Bearer session-token' })).json())
+        .toMatchObject({ user: { id: 'u1', username: 'ada', role: 'user' } });
+
+      expect((await call('/hook', { 'X-Hub-Signature-256': signature }, hookBody.replace('opened', 'closed'))).status).toBe(401);
+      expect((await call('/hook', { 'X-Hub-Signature-256': signature }, hookBody)).status).toBe(200);
+
+      const now = String(Math.floor(Date.now() / 1000));
+      expect((await call('/stripe', { 'Stripe-Signature': stripeSignature(now) }, hookBody)).status).toBe(200);
+      // Stale and non-numeric timestamps are refused even when correctly signed
+      expect((await call('/stripe', { 'Stripe-Signature': stripeSignature(String(Number(now) - 600)) }, hookBody)).status).toBe(401);
+      expect((await call('/stripe', { 'Stripe-Signature': stripeSignature('abc') }, hookBody)).status).toBe(401);
+
+      const preflight = await call('/key', { Origin: 'https://app.example', 'Access-Control-Request-Method': 'POST' }, '', 'OPTIONS');
+      expect(preflight.status).toBe(204);
+      expect(preflight.headers.get('access-control-allow-methods')).toBe('POST');
+      const foreign = await call('/key', { Origin: 'https://evil.example', 'Access-Control-Request-Method': 'POST' }, '', 'OPTIONS');
+      expect(foreign.status).toBe(404);
+
+      // Redeploying with changed settings replaces the route
+      engine.loadWorkflow({
+        id: 'secured',
+        name: 'Secured',
+        type: 'flow',
+        nodes: [
+          route('key', { auth: 'api-key', apiKey: 'k-456' }),
+          { id: 'whoami', type: 'whoami', name: 'Who', config: {}, wires: [['reply']] },
+          { id: 'reply', type: 'http-response', name: 'Reply', config: {}, wires: [] }
+        ]
+      });
+      await engine.executeWorkflow('secured');
+      expect((await call('/key', { 'X-API-Key': 'k-123' })).status).toBe(401);
+      expect((await call('/key', { 'X-API-Key': 'k-456' })).status).toBe(200);
+    } finally {
+      await httpService.stop();
+      clearRuntimeSubscriptions();
+      console.log = originalLog;
+    }
+  });
+
+  it("should template, authenticate and time out http-request calls and split error responses", async () => {
+    const server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        const url = new URL(req.url);
+        if (url.pathname === '/slow') await Bun.sleep(200);
+        if (url.pathname === '/image') return new Response(new Uint8Array([137, 80, 78, 71]), { headers: { 'Content-Type': 'image/png' } });
+        if (url.pathname === '/missing') return Response.json({ error: 'not found' }, { status: 404 });
+        return Response.json({
+          path: url.pathname,
+          query: Object.fromEntries(url.searchParams),
+          authorization: req.headers.get('authorization'),
+          contentType: req.headers.get('content-type'),
+          body: await req.text()
+        });
+      }
+    });
+    const outputs: { ok: any[]; failed: any[] } = { ok: [], failed: [] };
+    engine.registerNodeType('collect', async (msg, ctx) => {
+      outputs[ctx.node.config.into as 'ok' | 'failed'].push(msg);
+    });
+    const errors: string[] = [];
+    engine.on('error', (_message: string, error?: Error) => errors.push(error?.message ?? ''));
+    const request = (id: string, config: Record<string, any>) => ({
+      id,
+      type: 'http-request',
+      name: id,
+      config: { splitErrors: true, ...config, url: `http://localhost:${server.port}${config.url}` },
+      wires: [['ok'], ['failed']]
+    });
+    engine.loadWorkflow({
+      id: 'requests',
+      name: 'Requests',
+      type: 'flow',
+      nodes: [
+        request('get', { url: '/users/{{payload.id}}', query: '{"tag": "{{payload.tag}}"}', authType: 'bearer', token: 't-{{payload.id}}' }),
+        request('form', { method: 'POST', url: '/form', bodyMode: 'form', authType: 'basic', username: 'ada', password: 'pw' }),
+        request('image', { url: '/image' }),
+        request('missing', { url: '/missing' }),
+        request('slow', { url: '/slow', timeout: 50 }),
+        { id: 'ok', type: 'collect', name: 'OK', config: { into: 'ok' }, wires: [] },
+        { id: 'failed', type: 'collect', name: 'Failed', config: { into: 'failed' }, wires: [] }
+      ]
+    });
+
+    const originalLog = console.log;
+    const originalError = console.error;
+    console.log = () => {};
+    console.error = () => {};
+    try {
+      await engine.executeNodeById('requests', 'get', { id: 'a b', tag: 'x' });
+      await engine.executeNodeById('requests', 'form', { name: 'Ada', roles: ['admin', 'dev'] });
+      await engine.executeNodeById('requests', 'image', {});
+      await engine.executeNodeById('requests', 'missing', {});
+      await engine.executeNodeById('requests', 'slow', {});
+    } finally {
+      console.log = originalLog;
+      console.error = originalError;
+      server.stop(true);
+    }
+
+    const [get, form, image] = outputs.ok;
+    expect(get.payload).toMatchObject({ path: '/users/a%20b', query: { tag: 'x' }, authorization: 'Bearer t-a b', body: '' });
+    expect(form.payload).toMatchObject({
+      authorization: `Basic ${btoa('ada:pw')}`,
+      contentType: 'application/x-www-form-urlencoded',
+      body: 'name=Ada&roles=admin&roles=dev'
+    });
+    expect(Buffer.isBuffer(image.payload)).toBe(true);
+    expect([...image.payload]).toEqual([137, 80, 78, 71]);
+    expect(outputs.failed).toHaveLength(1);
+    expect(outputs.failed[0].payload).toEqual({ error: 'not found' });
+    expect(outputs.failed[0].metadata.statusCode).toBe(404);
+    expect(errors).toEqual(['Request timed out after 50ms']);
+  });
+
+  it("should stream sse-out events to http-in clients and consume them with sse-in", async () => {
+    const httpService = new HttpInService(38422);
+    registerRuntimeNodes(engine, httpService, new MqttService());
+    engine.registerNodeType('ticker', async (_msg, ctx) => {
+      ctx.send({ payload: 'first\nsecond' });
+      ctx.send({ payload: { n: 2 }, metadata: { event: 'count', eventId: 7 } });
+      await new Promise(resolve => setTimeout(resolve, 20));
+      ctx.send({ payload: 'bye' }, 1);
+    });
+    const received: any[] = [];
+    engine.registerNodeType('record', async (msg) => {
+      received.push(msg);
+    });
+    const logs: string[] = [];
+    engine.on('log', (message: string) => logs.push(message));
+    engine.loadWorkflow({
+      id: 'producer',
+      name: 'Producer',
+      type: 'flow',
+      nodes: [
+        { id: 'in', type: 'http-in', name: 'Events', config: { method: 'GET', path: '/events', respond: 'sse' }, wires: [['tick']] },
+        { id: 'tick', type: 'ticker', name: 'Tick', config: {}, wires: [['out'], ['last']] },
+        { id: 'out', type: 'sse-out', name: 'Stream', config: {}, wires: [] },
+        { id: 'last', type: 'sse-out', name: 'Done', config: { event: 'done', close: true }, wires: [] }
+      ]
+    });
+    engine.loadWorkflow({
+      id: 'consumer',
+      name: 'Consumer',
+      type: 'flow',
+      nodes: [
+        { id: 'sse', type: 'sse-in', name: 'Listen', config: { url: 'http://localhost:38422/events', event: 'count', reconnectDelay: 60000 }, wires: [['rec']] },
+        { id: 'rec', type: 'record', name: 'Record', config: {}, wires: [] }
+      ]
+    });
+
+    const originalLog = console.log;
+    console.log = () => {};
+    try {
+      await httpService.start();
+      await engine.executeWorkflow('producer');
+
+      const response = await fetch('http://localhost:38422/events');
+      expect(response.headers.get('content-type')).toBe('text/event-stream');
+      // The stream ends once the closing sse-out sent its event
+      expect(await response.text()).toBe(
+        'data: first\ndata: second\n\n' +
+        'event: count\nid: 7\ndata: {"n":2}\n\n' +
+        'event: done\ndata: bye\n\n'
+      );
+
+      await engine.executeWorkflow('consumer');
+      for (let i = 0; i < 50 && received.length === 0; i++) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+      expect(received).toHaveLength(1);
+      expect(received[0].payload).toEqual({ n: 2 });
+      expect(received[0].metadata).toMatchObject({ event: 'count', eventId: '7' });
+    } finally {
+      // Disconnect sse-in, then let the run that served it finish; its
+      // remaining events are dropped
+      clearRuntimeSubscriptions();
+      while (engine.getActiveRuns().length > 0) await Bun.sleep(1);
+      await httpService.stop();
+      console.log = originalLog;
+    }
+    expect(logs.filter(log => log.includes('event dropped'))).toHaveLength(1);
+  });
+
+  it("should not let sse-in reconnect faster than the minimum delay", async () => {
+    // Every connection ends at once and asks for an immediate retry
+    const connectedAt: number[] = [];
+    let reconnected!: () => void;
+    const twoConnections = new Promise<void>(resolve => reconnected = resolve);
+    const server = Bun.serve({
+      port: 0,
+      fetch() {
+        if (connectedAt.push(performance.now()) === 2) reconnected();
+        return new Response('retry: 0\n\n', { headers: { 'Content-Type': 'text/event-stream' } });
+      }
+    });
+    registerRuntimeNodes(engine, new HttpInService(38424), new MqttService());
+    engine.loadWorkflow({
+      id: 'consumer',
+      name: 'Consumer',
+      type: 'flow',
+      nodes: [
+        { id: 'sse', type: 'sse-in', name: 'Listen', config: { url: `http://localhost:${server.port}/`, reconnectDelay: 0 }, wires: [] }
+      ]
+    });
+
+    const originalLog = console.log;
+    console.log = () => {};
+    try {
+      await engine.executeWorkflow('consumer');
+      await twoConnections;
+      expect(connectedAt[1]! - connectedAt[0]!).toBeGreaterThanOrEqual(90);
+    } finally {
+      clearRuntimeSubscriptions();
+      server.stop(true);
+      console.log = originalLog;
+    }
+  });
+
+  it("should stream ai-generate chunks on output 2 and send the full response on output 1", async () => {
+    const requests: any[] = [];
+    const server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        requests.push(await req.json());
+        const chunk = (delta: Record<string, any>, extra: Record<string, any> = {}) =>
+          `data: ${JSON.stringify({ id: 'c1', created: 0, model: 'stub', choices: [{ index: 0, delta, finish_reason: null }], ...extra })}\n\n`;
+        const body = [
+          chunk({ role: 'assistant', content: 'Hel' }),
+          chunk({ content: 'lo' }),
+          chunk({ content: '!' }),
+          `data: ${JSON.stringify({ id: 'c1', created: 0, model: 'stub', choices: [{ index: 0, delta: {}, finish_reason: 'stop' }], usage: { prompt_tokens: 3, completion_tokens: 3, total_tokens: 6 } })}\n\n`,
+          'data: [DONE]\n\n'
+        ].join('');
+        return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+      }
+    });
+    const outputs: { final: any[]; chunks: any[] } = { final: [], chunks: [] };
+    engine.registerNodeType('collect', async (msg, ctx) => {
+      outputs[ctx.node.config.into as 'final' | 'chunks'].push(msg.payload);
+    });
+    engine.loadWorkflow({
+      id: 'chat',
+      name: 'Chat',
+      type: 'flow',
+      nodes: [
+        {
+          id: 'ai',
+          type: 'ai-generate',
+          name: 'Chat',
+          config: {
+            aiConfig: { provider: 'openai-compatible', baseUrl: `http://localhost:${server.port}`, apiKey: 'test', model: 'stub' },
+            prompt: '{{payload.prompt}}',
+            stream: true
+          },
+          wires: [['final'], ['chunks']]
+        },
+        { id: 'final', type: 'collect', name: 'Final', config: { into: 'final' }, wires: [] },
+        { id: 'chunks', type: 'collect', name: 'Chunks', config: { into: 'chunks' }, wires: [] }
+      ]
+    });
+
+    const originalLog = console.log;
+    console.log = () => {};
+    try {
+      await engine.executeNodeById('chat', 'ai', { prompt: 'Hi', conversationId: 'stream-test' });
+    } finally {
+      console.log = originalLog;
+      server.stop(true);
+    }
+
+    expect(requests[0].stream).toBe(true);
+    expect(outputs.chunks).toEqual([
+      { chunk: 'Hel', index: 0, done: false, conversationId: 'stream-test' },
+      { chunk: 'lo', index: 1, done: false, conversationId: 'stream-test' },
+      { chunk: '!', index: 2, done: false, conversationId: 'stream-test' },
+      { chunk: '', index: 3, done: true, conversationId: 'stream-test' }
+    ]);
+    expect(outputs.final).toHaveLength(1);
+    expect(outputs.final[0]).toMatchObject({ response: 'Hello!', conversationId: 'stream-test', usage: { inputTokens: 3, outputTokens: 3 } });
+  });
+
+  it("should run ai-generate tools through workflow nodes and remember their results", async () => {
+    const requests: any[] = [];
+    const server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        const url = new URL(req.url);
+        if (url.pathname === '/orders/42') return Response.json({ id: 42, status: 'shipped' });
+
+        const body = await req.json();
+        requests.push(body);
+        const completion = (message: Record<string, any>, finishReason: string) => Response.json({
+          id: `c${requests.length}`,
+          created: 0,
+          model: 'stub',
+          choices: [{ index: 0, message: { role: 'assistant', ...message }, finish_reason: finishReason }],
+          usage: { prompt_tokens: 5, completion_tokens: 5, total_tokens: 10 }
+        });
+        if (requests.length === 1) {
+          return completion({
+            content: null,
+            tool_calls: [
+              { id: 'call_add', type: 'function', function: { name: 'add', arguments: '{"a":2,"b":3}' } },
+              { id: 'call_order', type: 'function', function: { name: 'order', arguments: '{"id":42}' } }
+            ]
+          }, 'tool_calls');
+        }
+        return completion({ content: 'Sum is 5, order 42 shipped.' }, 'stop');
+      }
+    });
+    const final: any[] = [];
+    engine.registerNodeType('collect', async (msg) => {
+      final.push(msg.payload);
+    });
+    engine.loadWorkflow({
+      id: 'agent',
+      name: 'Agent',
+      type: 'flow',
+      nodes: [
+        {
+          id: 'ai',
+          type: 'ai-generate',
+          name: 'Agent',
+          config: {
+            aiConfig: { provider: 'openai-compatible', baseUrl: `http://localhost:${server.port}`, apiKey: 'test', model: 'stub' },
+            prompt: '{{payload.prompt}}',
+            tools: JSON.stringify([
+              {
+                name: 'add',
+                description: 'Add two numbers',
+                parameters: { type: 'object', properties: { a: { type: 'number' }, b: { type: 'number' } }, required: ['a', 'b'] },
+                node: 'Adder'
+              },
+              {
+                name: 'order',
+                description: 'Look up an order',
+                parameters: { type: 'object', properties: { id: { type: 'number' } }, required: ['id'] },
+                httpRequest: { method: 'GET', url: `http://localhost:${server.port}/orders/{{payload.id}}` }
+              }
+            ])
+          },
+          wires: [['final']]
+        },
+        { id: 'add', type: 'hyperflow-tool', name: 'Adder', config: { toolName: 'sum', toolCode: 'return input.a + input.b;' }, wires: [['final']] },
+        { id: 'final', type: 'collect', name: 'Final', config: {}, wires: [] }
+      ]
+    });
+
+    const originalLog = console.log;
+    console.log = () => {};
+    try {
+      await engine.executeNodeById('agent', 'ai', { prompt: 'Add 2 and 3, then check order 42', conversationId: 'tools-test' });
+    } finally {
+      console.log = originalLog;
+      server.stop(true);
+    }
+
+    // The tool node's own wires aren't followed, so only the answer arrives
+    expect(final).toHaveLength(1);
+    expect(final[0].response).toBe('Sum is 5, order 42 shipped.');
+    // Both calls run in parallel, so they may finish in either order
+    const byId = (a: any, b: any) => a.toolCallId.localeCompare(b.toolCallId);
+    expect([...final[0].toolCalls].sort(byId)).toEqual([
+      { toolCallId: 'call_add', toolName: 'add', input: { a: 2, b: 3 }, output: { a: 2, b: 3, sum: 5 } },
+      { toolCallId: 'call_order', toolName: 'order', input: { id: 42 }, output: { id: 42, status: 'shipped' } }
+    ]);
+    expect(requests[0].tools.map((t: any) => t.function.name)).toEqual(['add', 'order']);
+    const toolMessages = requests[1].messages.filter((m: any) => m.role === 'tool');
+    expect(toolMessages.map((m: any) => [m.tool_call_id, JSON.parse(m.content)]).sort()).toEqual([
+      ['call_add', { a: 2, b: 3, sum: 5 }],
+      ['call_order', { id: 42, status: 'shipped' }]
+    ]);
+
+    const history = AIMemoryManager.getHistory('tools-test');
+    expect(history.map(m => m.role)).toEqual(['user', 'tool', 'tool', 'assistant']);
+    expect(history.filter(m => m.role === 'tool').map(m => m.toolName).sort()).toEqual(['add', 'order']);
+  });
+});